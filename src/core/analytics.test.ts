@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Player } from './player';
+import { PlaybackAnalytics } from './analytics';
+import type { PlaybackSession } from '../types';
+import { createMockApi, FakeVideoElement, TEST_PLAYER_CONFIG, flushPromises, resetPlayerSingletons } from '../testing';
+
+const ENDPOINT = 'https://stats.mock.3speak.test/qoe';
+
+const mock = createMockApi({
+  videos: [
+    { owner: 'alice', permlink: 'intro' },
+    { owner: 'bob', permlink: 'talk' },
+  ],
+});
+
+/** Sessions POSTed to the collector so far */
+function collected(): PlaybackSession[] {
+  return mock.requests
+    .filter((r) => r.url === ENDPOINT)
+    .flatMap((r) => JSON.parse(r.body || '{}').sessions);
+}
+
+/** jsdom's Blob has no text() */
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+beforeEach(() => {
+  resetPlayerSingletons();
+  mock.reset();
+  mock.install();
+});
+
+afterEach(() => {
+  mock.restore();
+  vi.unstubAllGlobals();
+});
+
+describe('PlaybackAnalytics', () => {
+  it('reports the URL that served the video when the next load ends the session', async () => {
+    const analytics = new PlaybackAnalytics({ endpoint: ENDPOINT, flushInterval: 0 });
+    const video = new FakeVideoElement();
+    const player = new Player(TEST_PLAYER_CONFIG).attach(video.asVideo());
+    analytics.track(player);
+
+    await player.load('alice/intro');
+    await flushPromises();
+    video.fail(2);
+    await flushPromises();
+
+    await player.play();
+    video.advance(5);
+    video.stall();
+    video.recover();
+    video.advance(3);
+
+    await player.load('bob/talk');
+    analytics.flush();
+
+    const [session] = collected();
+    expect(session).toMatchObject({
+      ref: 'alice/intro',
+      url: 'https://fallback.mock.3speak.test/alice/intro/manifest.m3u8',
+      host: 'fallback.mock.3speak.test',
+      fallbacks: 1,
+      rebufferCount: 1,
+      watchTime: 8,
+      engine: 'native',
+    });
+    analytics.destroy();
+  });
+
+  it('skips sessions that never played', async () => {
+    const analytics = new PlaybackAnalytics({ endpoint: ENDPOINT, flushInterval: 0 });
+    const player = new Player(TEST_PLAYER_CONFIG).attach(new FakeVideoElement().asVideo());
+    analytics.track(player);
+
+    await player.load('alice/intro');
+    await flushPromises();
+    await player.load('bob/talk');
+    analytics.flush();
+
+    expect(collected()).toEqual([]);
+    analytics.destroy();
+  });
+
+  it('sends pending sessions with sendBeacon on destroy()', async () => {
+    const sendBeacon = vi.fn(() => true);
+    vi.stubGlobal('navigator', { ...navigator, sendBeacon });
+    const analytics = new PlaybackAnalytics({ endpoint: ENDPOINT, flushInterval: 0 });
+    const video = new FakeVideoElement();
+    const player = new Player(TEST_PLAYER_CONFIG).attach(video.asVideo());
+    analytics.track(player);
+
+    await player.load('alice/intro');
+    await flushPromises();
+    await player.play();
+    video.advance(2);
+    analytics.destroy();
+
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    const [url, blob] = sendBeacon.mock.calls[0] as unknown as [string, Blob];
+    expect(url).toBe(ENDPOINT);
+    const { sessions } = JSON.parse(await readBlob(blob));
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      url: 'https://cdn.mock.3speak.test/alice/intro/manifest.m3u8',
+      host: 'cdn.mock.3speak.test',
+      fallbacks: 0,
+      watchTime: 2,
+    });
+    expect(collected()).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+import type { Player } from './player';
+import type { AnalyticsConfig, PlaybackSession, EventUnsubscribe } from '../types';
+
+const DEFAULT_CONFIG: Required<Omit<AnalyticsConfig, 'endpoint'>> = {
+  batchSize: 10,
+  flushInterval: 30000,
+  sampleRate: 1,
+  debug: false,
+};
+
+/** Working state for a session in progress */
+interface ActiveSession {
+  data: PlaybackSession;
+  sampled: boolean;
+  /** performance.now() at loadstart (null when the session was resumed mid-playback) */
+  loadAt: number | null;
+  firstFrame: boolean;
+  stallStart: number | null;
+  lastTime: number;
+  bitrate: number;
+  /** Σ bitrate × seconds watched, for the weighted average */
+  bitrateSeconds: number;
+  droppedBaseline: number;
+}
+
+interface TrackedPlayer {
+  session: ActiveSession | null;
+  unsubs: EventUnsubscribe[];
+}
+
+/**
+ * Opt-in playback quality-of-experience collector.
+ *
+ * Tracks one session per load() of each player: time-to-first-frame, rebuffering,
+ * bitrate, dropped frames, which CDN URL served the video and watch time.
+ * Finished sessions are batched to `endpoint` as `{ sessions: [...] }`, and
+ * everything pending is sent with `navigator.sendBeacon` when the page is hidden.
+ *
+ * Sessions that never played (e.g. preloaded feed items the user skipped) are
+ * not reported unless they failed with a fatal error.
+ *
+ * @example
+ * ```js
+ * const analytics = new PlaybackAnalytics({ endpoint: 'https://stats.example.com/qoe' });
+ * analytics.track(player);
+ * ```
+ */
+export class PlaybackAnalytics {
+  private config: Required<AnalyticsConfig>;
+  private tracked = new Map<Player, TrackedPlayer>();
+  private queue: PlaybackSession[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private cleanupFns: (() => void)[] = [];
+
+  constructor(config: AnalyticsConfig) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    if (this.config.flushInterval > 0) {
+      this.timer = setInterval(() => this.flush(), this.config.flushInterval);
+    }
+
+    if (typeof document !== 'undefined') {
+      const onVisibility = () => {
+        if (document.visibilityState === 'hidden') this.endAll(true);
+      };
+      const onPageHide = () => this.endAll(true);
+      document.addEventListener('visibilitychange', onVisibility);
+      window.addEventListener('pagehide', onPageHide);
+      this.cleanupFns.push(() => {
+        document.removeEventListener('visibilitychange', onVisibility);
+        window.removeEventListener('pagehide', onPageHide);
+      });
+    }
+  }
+
+  private log(...args: unknown[]) {
+    if (this.config.debug) console.log('[3Speak Analytics]', ...args);
+  }
+
+  /**
+   * Start collecting metrics for a player.
+   * @returns Function that stops tracking (and reports the current session)
+   */
+  track(player: Player): () => void {
+    if (this.tracked.has(player)) return () => this.untrack(player);
+
+    const entry: TrackedPlayer = { session: null, unsubs: [] };
+    // Lazily (re)start a session when events arrive without a loadstart,
+    // e.g. tracking began mid-playback or the page was hidden and shown again
+    const session = () => entry.session || (entry.session = this.start(player, false));
+
+    entry.unsubs.push(
+      player.on('loadstart', () => {
+        this.end(entry, player);
+        entry.session = this.start(player, true);
+      }),
+      player.on('timeupdate', ({ currentTime, paused }) => {
+        this.onTime(session(), currentTime, paused);
+      }),
+      player.on('loading', (isLoading) => {
+        this.onLoading(session(), player, isLoading);
+      }),
+      player.on('qualitychange', ({ bitrate }) => {
+        const s = session();
+        if (s.bitrate && bitrate !== s.bitrate) s.data.bitrateSwitches++;
+        s.bitrate = bitrate;
+      }),
+      // Remember the serving URL now: by the time the next load() ends this session, it is gone
+      player.on('ready', () => {
+        session().data.url = player.currentUrl;
+      }),
+      player.on('fallback', ({ url }) => {
+        const s = session();
+        s.data.fallbacks++;
+        s.data.url = url;
+      }),
+      player.on('error', ({ message, code, fatal }) => {
+        const s = session();
+        if (fatal) {
+          s.data.fatalError = message;
+          s.data.fatalErrorCode = code;
+        } else {
+          s.data.errors++;
+        }
+      }),
+    );
+
+    this.tracked.set(player, entry);
+    return () => this.untrack(player);
+  }
+
+  /** Stop collecting metrics for a player and report its current session. */
+  untrack(player: Player): void {
+    const entry = this.tracked.get(player);
+    if (!entry) return;
+    this.end(entry, player);
+    entry.unsubs.forEach((fn) => fn());
+    this.tracked.delete(player);
+  }
+
+  /** Sessions finished but not yet sent */
+  get pending(): PlaybackSession[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Send queued sessions now.
+   * @param beacon - Use navigator.sendBeacon (for page unload)
+   */
+  flush(beacon = false): void {
+    if (this.queue.length === 0) return;
+    const sessions = this.queue.splice(0);
+    const body = JSON.stringify({ sessions });
+    this.log(`Sending ${sessions.length} session(s)${beacon ? ' (beacon)' : ''}`);
+
+    if (beacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+      const blob = new Blob([body], { type: 'application/json' });
+      if (navigator.sendBeacon(this.config.endpoint, blob)) return;
+    }
+
+    fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    }).catch(() => {
+      // Non-critical — drop the batch rather than retry forever
+    });
+  }
+
+  /** Report all sessions, stop tracking every player and remove listeners. */
+  destroy(): void {
+    for (const player of [...this.tracked.keys()]) this.untrack(player);
+    this.flush(true);
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.cleanupFns.forEach((fn) => fn());
+    this.cleanupFns = [];
+  }
+
+  // ─── Private ───
+
+  private start(player: Player, fromLoad: boolean): ActiveSession {
+    const video = player.element;
+    return {
+      data: {
+        sessionId: randomId(),
+        ref: player.currentRef,
+        url: null,
+        host: null,
+        fallbacks: 0,
+        engine: player.engine,
+        startedAt: Date.now(),
+        timeToFirstFrame: null,
+        rebufferCount: 0,
+        rebufferDuration: 0,
+        rebufferRatio: 0,
+        averageBitrate: 0,
+        bitrateSwitches: 0,
+        droppedFrames: 0,
+        watchTime: 0,
+        errors: 0,
+        fatalError: null,
+        fatalErrorCode: null,
+      },
+      sampled: Math.random() < this.config.sampleRate,
+      loadAt: fromLoad ? performance.now() : null,
+      firstFrame: !fromLoad && !!video && !video.paused,
+      stallStart: null,
+      lastTime: video?.currentTime || 0,
+      bitrate: 0,
+      bitrateSeconds: 0,
+      droppedBaseline: fromLoad ? 0 : droppedFrames(video),
+    };
+  }
+
+  private onTime(s: ActiveSession, currentTime: number, paused: boolean): void {
+    if (!s.firstFrame && !paused && currentTime > 0) {
+      s.firstFrame = true;
+      if (s.loadAt !== null) s.data.timeToFirstFrame = Math.round(performance.now() - s.loadAt);
+    }
+    if (!paused) this.endStall(s);
+
+    // Count small forward steps only — larger jumps are seeks
+    const delta = currentTime - s.lastTime;
+    if (!paused && delta > 0 && delta < 2) {
+      s.data.watchTime += delta;
+      s.bitrateSeconds += s.bitrate * delta;
+    }
+    s.lastTime = currentTime;
+  }
+
+  private onLoading(s: ActiveSession, player: Player, isLoading: boolean): void {
+    if (!isLoading) {
+      this.endStall(s);
+      return;
+    }
+    const video = player.element;
+    if (s.firstFrame && s.stallStart === null && video && !video.paused && !video.seeking) {
+      s.stallStart = performance.now();
+      s.data.rebufferCount++;
+    }
+  }
+
+  private endStall(s: ActiveSession): void {
+    if (s.stallStart === null) return;
+    s.data.rebufferDuration += performance.now() - s.stallStart;
+    s.stallStart = null;
+  }
+
+  private end(entry: TrackedPlayer, player: Player): void {
+    const s = entry.session;
+    entry.session = null;
+    if (!s || !s.sampled) return;
+
+    this.endStall(s);
+    const data = s.data;
+    const hls = player.hlsInstance;
+
+    data.url = player.currentUrl ?? data.url;
+    try {
+      data.host = data.url ? new URL(data.url).host : null;
+    } catch {}
+
+    // Quality never switched: read the level hls.js is actually playing
+    if (!s.bitrate && hls && hls.currentLevel >= 0) {
+      s.bitrate = hls.levels[hls.currentLevel]?.bitrate || 0;
+      s.bitrateSeconds = s.bitrate * data.watchTime;
+    }
+
+    data.watchTime = Math.round(data.watchTime * 10) / 10;
+    data.rebufferDuration = Math.round(data.rebufferDuration);
+    const watchMs = data.watchTime * 1000;
+    data.rebufferRatio = watchMs + data.rebufferDuration > 0
+      ? data.rebufferDuration / (watchMs + data.rebufferDuration)
+      : 0;
+    data.averageBitrate = data.watchTime > 0 ? Math.round(s.bitrateSeconds / data.watchTime) : s.bitrate;
+    data.droppedFrames = Math.max(0, droppedFrames(player.element) - s.droppedBaseline);
+
+    if (data.watchTime === 0 && !data.fatalError) return;
+
+    this.log('Session:', data.ref || data.url, data);
+    this.queue.push(data);
+    if (this.queue.length >= this.config.batchSize) this.flush();
+  }
+
+  private endAll(beacon: boolean): void {
+    for (const [player, entry] of this.tracked) this.end(entry, player);
+    this.flush(beacon);
+  }
+}
+
+function droppedFrames(video: HTMLVideoElement | null): number {
+  return video?.getVideoPlaybackQuality?.().droppedVideoFrames ?? 0;
+}
+
+function randomId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
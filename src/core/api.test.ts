@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ThreeSpeakApi } from './api';
+import { MetadataCache } from './cache';
+import { PlayerErrorCode } from './errors';
+import { createMockApi } from '../testing';
+
+const LATENCY = 100;
+
+const mock = createMockApi({
+  latency: LATENCY,
+  videos: Array.from({ length: 10 }, (_, i) => ({ owner: 'alice', permlink: `video-${i}` })),
+});
+
+/** Requests currently waiting on the mock, and the most seen at once */
+let inFlight = 0;
+let maxInFlight = 0;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  mock.reset();
+  inFlight = 0;
+  maxInFlight = 0;
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+    maxInFlight = Math.max(maxInFlight, ++inFlight);
+    try {
+      return await mock.fetch(input, init);
+    } finally {
+      inFlight--;
+    }
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+/** Client with its own cache, so tests don't share entries */
+function createApi(options?: ConstructorParameters<typeof MetadataCache>[0]) {
+  const cache = new MetadataCache(options);
+  return { api: new ThreeSpeakApi(undefined, false, cache), cache };
+}
+
+/** Run a lookup to completion under fake timers */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.advanceTimersByTimeAsync(LATENCY * 20);
+  return promise;
+}
+
+describe('ThreeSpeakApi metadata caching', () => {
+  it('serves repeat lookups from the cache until the TTL expires', async () => {
+    const { api } = createApi({ ttl: 60_000 });
+
+    await settle(api.fetchVideoMetadata('alice', 'video-0'));
+    await settle(api.fetchVideoMetadata('alice', 'video-0'));
+    expect(mock.count('/api/embed')).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    const meta = await settle(api.fetchVideoMetadata('alice', 'video-0'));
+    expect(meta.permlink).toBe('video-0');
+    expect(mock.count('/api/embed')).toBe(2);
+  });
+
+  it('caches "not found" answers for the negative TTL', async () => {
+    const { api } = createApi({ negativeTtl: 10_000 });
+    const lookup = () => settle(api.fetchVideoMetadata('alice', 'missing').catch((e) => e));
+
+    expect(await lookup()).toMatchObject({ code: PlayerErrorCode.VIDEO_NOT_FOUND });
+    const requests = mock.requests.length;
+    expect(mock.count('/api/watch')).toBe(1);
+
+    expect(await lookup()).toMatchObject({ code: PlayerErrorCode.VIDEO_NOT_FOUND });
+    expect(mock.requests.length).toBe(requests);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await lookup();
+    expect(mock.count('/api/watch')).toBe(2);
+  });
+
+  it('does not cache failures other than "not found"', async () => {
+    const { api } = createApi();
+    mock.fail('/api/', 503);
+
+    const error = await settle(api.fetchVideoMetadata('alice', 'video-0').catch((e) => e));
+    expect(error).toMatchObject({ code: PlayerErrorCode.API_UNAVAILABLE });
+    mock.clearFailures();
+
+    const meta = await settle(api.fetchVideoMetadata('alice', 'video-0'));
+    expect(meta.permlink).toBe('video-0');
+  });
+
+  it('shares one request between concurrent lookups of a ref', async () => {
+    const { api, cache } = createApi();
+    const lookups = [
+      api.fetchVideoMetadata('alice', 'video-0'),
+      api.fetchVideoMetadata('alice', 'video-0'),
+      api.fetchVideoMetadata('alice', 'video-0'),
+    ];
+    expect(cache.inflight.size).toBe(1);
+
+    const results = await settle(Promise.all(lookups));
+    expect(results.map((meta) => meta.permlink)).toEqual(['video-0', 'video-0', 'video-0']);
+    expect(mock.count('/api/embed')).toBe(1);
+    expect(cache.inflight.size).toBe(0);
+  });
+
+  it('keeps a shared request running when one caller aborts', async () => {
+    const { api } = createApi();
+    const controller = new AbortController();
+    const aborted = api.fetchVideoMetadata('alice', 'video-0', controller.signal);
+    const kept = api.fetchVideoMetadata('alice', 'video-0');
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ code: PlayerErrorCode.ABORTED });
+    expect((await settle(kept)).permlink).toBe('video-0');
+    expect(mock.count('/api/embed')).toBe(1);
+  });
+});
+
+describe('ThreeSpeakApi.fetchMany', () => {
+  it.each([1, 3, 4])('keeps at most %i requests in flight', async (concurrency) => {
+    const { api } = createApi();
+    const refs = Array.from({ length: 10 }, (_, i) => `alice/video-${i}`);
+
+    const results = await settle(api.fetchMany(refs, concurrency));
+    expect(results.map((r) => r.metadata?.permlink)).toEqual(refs.map((ref) => ref.split('/')[1]));
+    expect(maxInFlight).toBe(concurrency);
+    expect(mock.count('/api/embed')).toBe(10);
+  });
+
+  it('returns errors in place without rejecting', async () => {
+    const { api } = createApi();
+    const results = await settle(api.fetchMany(['@alice/video-0', 'alice/missing', 'not-a-ref']));
+
+    expect(results.map((r) => r.ref)).toEqual(['@alice/video-0', 'alice/missing', 'not-a-ref']);
+    expect(results[0].metadata?.permlink).toBe('video-0');
+    expect(results[1]).toMatchObject({ metadata: null, error: { code: PlayerErrorCode.VIDEO_NOT_FOUND } });
+    expect(results[2]).toMatchObject({ metadata: null, error: { code: PlayerErrorCode.INVALID_REF } });
+  });
+
+  it('dedupes refs that are already being fetched', async () => {
+    const { api } = createApi();
+    const single = api.fetchVideoMetadata('alice', 'video-0');
+    const results = await settle(api.fetchMany(['alice/video-0', 'alice/video-1']));
+
+    expect((await single).permlink).toBe('video-0');
+    expect(results.every((r) => r.metadata)).toBe(true);
+    expect(mock.count('/api/embed?v=alice/video-0')).toBe(1);
+  });
+});
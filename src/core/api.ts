@@ -1,4 +1,7 @@
-import type { VideoMetadata, VideoSource } from '../types';
+import type { VideoMetadata, VideoSource, MetadataResult } from '../types';
+import { PlayerError, PlayerErrorCode, abortError } from './errors';
+import { MetadataCache, metadataCache } from './cache';
+import { fetchPlaylist, lowestBandwidthVariant } from './m3u8';
 
 const DEFAULT_API_BASE = 'https://play.3speak.tv';
 
@@ -9,10 +12,17 @@ const DEFAULT_API_BASE = 'https://play.3speak.tv';
 export class ThreeSpeakApi {
   private apiBase: string;
   private debug: boolean;
+  private cache: MetadataCache | null;
 
-  constructor(apiBase?: string, debug = false) {
+  /**
+   * @param apiBase - API base URL (default: https://play.3speak.tv)
+   * @param debug - Enable debug logging
+   * @param cache - Metadata cache (default: the shared `metadataCache`; null disables caching)
+   */
+  constructor(apiBase?: string, debug = false, cache: MetadataCache | null = metadataCache) {
     this.apiBase = (apiBase || DEFAULT_API_BASE).replace(/\/$/, '');
     this.debug = debug;
+    this.cache = cache;
   }
 
   private log(...args: unknown[]) {
@@ -23,20 +33,115 @@ export class ThreeSpeakApi {
    * Fetch full video metadata.
    * Tries /api/embed (shorts/embed-video collection) first, then falls back
    * to /api/watch (legacy videos collection) for regular long-form videos.
+   *
+   * Results are cached (including "not found" answers, briefly), concurrent
+   * calls for the same ref share one request, and the endpoint that answered
+   * is remembered so repeat lookups skip the one that missed.
+   *
+   * Aborting `signal` rejects this call with ABORTED. A request shared with
+   * other callers keeps running for them (and still fills the cache).
+   * @throws PlayerError — VIDEO_NOT_FOUND, API_UNAVAILABLE, INVALID_REF or ABORTED
    * @param author - Hive account name
    * @param permlink - 3Speak video permlink
+   * @param signal - Cancels this lookup
+   */
+  async fetchVideoMetadata(author: string, permlink: string, signal?: AbortSignal): Promise<VideoMetadata> {
+    if (!author || !permlink) {
+      throw new PlayerError(PlayerErrorCode.INVALID_REF, `Invalid video ref: "${author}/${permlink}"`);
+    }
+    if (signal?.aborted) throw abortError();
+
+    const cache = this.cache;
+    if (!cache) {
+      // Body reads fail with a DOMException once aborted — report those as ABORTED too
+      return this.requestMetadata(author, permlink, signal).catch((e) => {
+        throw signal?.aborted ? abortError() : e;
+      });
+    }
+
+    const key = this.cacheKey(author, permlink);
+    const cached = cache.get(key);
+    if (cached instanceof PlayerError) throw cached;
+    if (cached) {
+      this.log('Cache hit:', `${author}/${permlink}`);
+      return cached;
+    }
+
+    const pending = cache.inflight.get(key);
+    if (pending) return abortable(pending, signal);
+
+    const request = this.requestMetadata(author, permlink)
+      .then((meta) => {
+        cache.set(key, meta);
+        return meta;
+      })
+      .catch((e) => {
+        if (e instanceof PlayerError && e.code === PlayerErrorCode.VIDEO_NOT_FOUND) cache.setMissing(key, e);
+        throw e;
+      })
+      .finally(() => cache.inflight.delete(key));
+    cache.inflight.set(key, request);
+    return abortable(request, signal);
+  }
+
+  /**
+   * Fetch metadata for many refs in parallel (e.g. a page of feed items).
+   * Never rejects — each result carries either `metadata` or `error`, in input order.
+   * @param refs - "author/permlink" or "@author/permlink" refs
+   * @param concurrency - Maximum requests in flight (default: 4)
    */
-  async fetchVideoMetadata(author: string, permlink: string): Promise<VideoMetadata> {
+  async fetchMany(refs: string[], concurrency = 4): Promise<MetadataResult[]> {
+    const results: MetadataResult[] = new Array(refs.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < refs.length) {
+        const i = next++;
+        const ref = refs[i];
+        const [author, permlink] = ref.replace(/^@/, '').split('/');
+        try {
+          results[i] = { ref, metadata: await this.fetchVideoMetadata(author, permlink), error: null };
+        } catch (e) {
+          const error = e instanceof PlayerError
+            ? e
+            : new PlayerError(PlayerErrorCode.UNKNOWN, (e as Error)?.message || String(e), { cause: e });
+          results[i] = { ref, metadata: null, error };
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, refs.length)) }, worker));
+    return results;
+  }
+
+  /** Drop cached metadata for one ref, or for everything when no ref is given */
+  invalidate(author?: string, permlink?: string): void {
+    if (!this.cache) return;
+    if (author && permlink) this.cache.delete(this.cacheKey(author, permlink));
+    else this.cache.clear();
+  }
+
+  private cacheKey(author: string, permlink: string): string {
+    return `${this.apiBase}|${author}/${permlink}`;
+  }
+
+  /** Uncached lookup: embed endpoint, then watch (or watch directly if that's what answered last time) */
+  private async requestMetadata(author: string, permlink: string, signal?: AbortSignal): Promise<VideoMetadata> {
+    const key = this.cacheKey(author, permlink);
+
     // Try embed endpoint first (shorts / embed-video collection)
-    const embedUrl = `${this.apiBase}/api/embed?v=${author}/${permlink}`;
-    this.log('Fetching (embed):', embedUrl);
-
-    const embedResponse = await fetch(embedUrl);
-    if (embedResponse.ok) {
-      const data = await embedResponse.json();
-      if (!data.error) {
-        this.log('Got metadata (embed):', data.owner, data.permlink, data.status);
-        return data as VideoMetadata;
+    if (this.cache?.getEndpoint(key) !== 'watch') {
+      const embedUrl = `${this.apiBase}/api/embed?v=${author}/${permlink}`;
+      this.log('Fetching (embed):', embedUrl);
+
+      const embedResponse = await this.request(embedUrl, signal);
+      if (embedResponse.ok) {
+        const data = await embedResponse.json();
+        if (!data.error) {
+          this.log('Got metadata (embed):', data.owner, data.permlink, data.status);
+          this.cache?.setEndpoint(key, 'embed');
+          return data as VideoMetadata;
+        }
       }
     }
 
@@ -44,26 +149,45 @@ export class ThreeSpeakApi {
     const watchUrl = `${this.apiBase}/api/watch?v=${author}/${permlink}`;
     this.log('Fetching (watch):', watchUrl);
 
-    const watchResponse = await fetch(watchUrl);
+    const watchResponse = await this.request(watchUrl, signal);
     if (!watchResponse.ok) {
-      const error = await watchResponse.json().catch(() => ({ error: `HTTP ${watchResponse.status}` }));
-      throw new Error(error.error || `Failed to fetch video: HTTP ${watchResponse.status}`);
+      const status = watchResponse.status;
+      const error = await watchResponse.json().catch(() => ({ error: `HTTP ${status}` }));
+      const code =
+        status === 404 ? PlayerErrorCode.VIDEO_NOT_FOUND :
+        status === 400 ? PlayerErrorCode.INVALID_REF :
+        PlayerErrorCode.API_UNAVAILABLE;
+      throw new PlayerError(code, error.error || `Failed to fetch video: HTTP ${status}`, { url: watchUrl, status });
     }
 
     const data = await watchResponse.json();
     if (data.error) {
-      throw new Error(data.error);
+      throw new PlayerError(PlayerErrorCode.VIDEO_NOT_FOUND, data.error, { url: watchUrl, status: watchResponse.status });
     }
     this.log('Got metadata (watch):', data.owner, data.permlink, data.status);
+    this.cache?.setEndpoint(key, 'watch');
     return data as VideoMetadata;
   }
 
+  /** fetch() that reports network failures as API_UNAVAILABLE (or ABORTED) */
+  private async request(url: string, signal?: AbortSignal): Promise<Response> {
+    try {
+      return await fetch(url, { signal });
+    } catch (e) {
+      if (signal?.aborted) throw abortError(undefined, url);
+      throw new PlayerError(PlayerErrorCode.API_UNAVAILABLE, `3Speak API unreachable: ${(e as Error).message}`, {
+        url,
+        cause: e,
+      });
+    }
+  }
+
   /**
    * Fetch just the HLS source URLs (convenience wrapper).
    * Returns a VideoSource ready to pass to the player.
    */
-  async fetchSource(author: string, permlink: string): Promise<VideoSource> {
-    const meta = await this.fetchVideoMetadata(author, permlink);
+  async fetchSource(author: string, permlink: string, signal?: AbortSignal): Promise<VideoSource> {
+    const meta = await this.fetchVideoMetadata(author, permlink, signal);
     return metadataToSource(meta);
   }
 
@@ -73,72 +197,48 @@ export class ThreeSpeakApi {
    */
   async prefetchManifest(hlsUrl: string): Promise<void> {
     try {
-      const resp = await fetch(hlsUrl, { mode: 'cors', credentials: 'omit' });
-      const text = await resp.text();
+      let playlist = await fetchPlaylist(hlsUrl);
       this.log('Prefetched manifest:', hlsUrl.substring(0, 80));
 
-      // Resolve relative URLs against manifest base
-      const baseUrl = hlsUrl.substring(0, hlsUrl.lastIndexOf('/') + 1);
-
-      const resolveUrl = (ref: string) =>
-        ref.startsWith('http') ? ref : baseUrl + ref;
-
-      // Check if this is a master playlist (contains quality variants)
-      if (text.includes('#EXT-X-STREAM-INF')) {
-        // Master playlist — find first variant (lowest bandwidth = fastest)
-        const lines = text.split('\n');
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (trimmed && !trimmed.startsWith('#')) {
-            // This is the first variant URL
-            const variantUrl = resolveUrl(trimmed);
-            this.log('Prefetching first variant:', variantUrl.substring(0, 80));
-            const varResp = await fetch(variantUrl, { mode: 'cors', credentials: 'omit' });
-            const varText = await varResp.text();
-            // Now find and prefetch the first segment from this variant
-            this.prefetchFirstSegment(varText, variantUrl);
-            break;
-          }
-        }
-      } else {
-        // Media playlist — directly find first segment
-        this.prefetchFirstSegment(text, hlsUrl);
+      if (playlist.type === 'master') {
+        // Master playlist — the lowest-bandwidth variant is the fastest to start
+        const variant = lowestBandwidthVariant(playlist);
+        if (!variant) return;
+        this.log('Prefetching lowest variant:', variant.uri.substring(0, 80));
+        playlist = await fetchPlaylist(variant.uri);
+        if (playlist.type !== 'media') return;
       }
-    } catch {
-      // Silently fail — this is just an optimization
-    }
-  }
 
-  /**
-   * Parse a media playlist and prefetch its first .ts/.m4s segment.
-   */
-  private prefetchFirstSegment(playlistText: string, playlistUrl: string): void {
-    const base = playlistUrl.substring(0, playlistUrl.lastIndexOf('/') + 1);
-    const lines = playlistText.split('\n');
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed && !trimmed.startsWith('#')) {
-        const segUrl = trimmed.startsWith('http') ? trimmed : base + trimmed;
-        this.log('Prefetching first segment:', segUrl.substring(0, 80));
-        fetch(segUrl, { mode: 'cors', credentials: 'omit' }).catch(() => {});
-        break;
+      const segment = playlist.segments[0];
+      if (segment) {
+        this.log('Prefetching first segment:', segment.uri.substring(0, 80));
+        fetch(segment.uri, { mode: 'cors', credentials: 'omit' }).catch(() => {});
       }
+    } catch {
+      // Silently fail — this is just an optimization
     }
   }
 
   /**
    * Increment view count for a video.
+   * @returns Whether the API accepted the view (never throws)
    */
-  async recordView(owner: string, permlink: string, type = 'embed'): Promise<void> {
+  async recordView(owner: string, permlink: string, type = 'embed'): Promise<boolean> {
     try {
-      await fetch(`${this.apiBase}/api/view`, {
+      const resp = await fetch(`${this.apiBase}/api/view`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ owner, permlink, type }),
       });
+      if (!resp.ok) {
+        this.log('View not recorded:', owner, permlink, `HTTP ${resp.status}`);
+        return false;
+      }
       this.log('View recorded:', owner, permlink);
+      return true;
     } catch {
       // Non-critical — don't throw
+      return false;
     }
   }
 }
@@ -167,3 +267,14 @@ export function metadataToSource(meta: VideoMetadata): VideoSource {
 
 /** Default API instance */
 export const api = new ThreeSpeakApi();
+
+/** Settle with `promise`, or reject with ABORTED as soon as `signal` aborts (without cancelling `promise`) */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MetadataCache } from './cache';
+import { PlayerError, PlayerErrorCode } from './errors';
+import type { VideoMetadata } from '../types';
+
+/** The cache never looks inside metadata */
+const meta = (permlink: string) => ({ owner: 'alice', permlink }) as VideoMetadata;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MetadataCache', () => {
+  it.each([
+    ['metadata', 5000, (cache: MetadataCache) => cache.set('k', meta('intro'))],
+    [
+      'a "not found" answer',
+      1000,
+      (cache: MetadataCache) => cache.setMissing('k', new PlayerError(PlayerErrorCode.VIDEO_NOT_FOUND, 'gone')),
+    ],
+  ])('keeps %s for %i ms', (_kind, ttl, store) => {
+    const cache = new MetadataCache({ ttl: 5000, negativeTtl: 1000 });
+    store(cache);
+
+    vi.advanceTimersByTime(ttl);
+    expect(cache.get('k')).toBeDefined();
+    vi.advanceTimersByTime(1);
+    expect(cache.get('k')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('does not store anything with a TTL of 0', () => {
+    const cache = new MetadataCache({ ttl: 0, negativeTtl: 0 });
+    cache.set('a', meta('a'));
+    cache.setMissing('b', new PlayerError(PlayerErrorCode.VIDEO_NOT_FOUND, 'gone'));
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the least recently used entry past maxEntries', () => {
+    const cache = new MetadataCache({ maxEntries: 2 });
+    cache.set('a', meta('a'));
+    cache.set('b', meta('b'));
+    cache.get('a');
+    cache.set('c', meta('c'));
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual(meta('a'));
+    expect(cache.get('c')).toEqual(meta('c'));
+  });
+
+  it('bounds endpoint hints like entries and forgets them on clear()', () => {
+    const cache = new MetadataCache({ maxEntries: 2 });
+    cache.setEndpoint('a', 'watch');
+    cache.setEndpoint('b', 'embed');
+    cache.setEndpoint('c', 'watch');
+    expect([cache.getEndpoint('a'), cache.getEndpoint('b'), cache.getEndpoint('c')]).toEqual([undefined, 'embed', 'watch']);
+
+    cache.clear();
+    expect(cache.getEndpoint('c')).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import type { VideoMetadata, MetadataCacheOptions } from '../types';
+import type { PlayerError } from './errors';
+
+const DEFAULT_OPTIONS: Required<MetadataCacheOptions> = {
+  ttl: 5 * 60 * 1000,
+  negativeTtl: 60 * 1000,
+  maxEntries: 200,
+};
+
+interface CacheEntry {
+  /** Metadata, or the VIDEO_NOT_FOUND error for a negative entry */
+  value: VideoMetadata | PlayerError;
+  expires: number;
+}
+
+/**
+ * Bounded TTL cache for 3Speak video metadata, shared by ThreeSpeakApi instances.
+ *
+ * - Positive entries live for `ttl`, "not found" answers for `negativeTtl`
+ * - Least recently used entries are evicted past `maxEntries`
+ * - Tracks in-flight requests so concurrent lookups of one ref share a fetch
+ * - Remembers which endpoint (embed/watch) answered for each ref
+ *
+ * Keys are opaque strings; ThreeSpeakApi uses `${apiBase}|${author}/${permlink}`.
+ */
+export class MetadataCache {
+  private options: Required<MetadataCacheOptions>;
+  private entries = new Map<string, CacheEntry>();
+  private endpoints = new Map<string, 'embed' | 'watch'>();
+  /** Pending fetches, for deduping concurrent lookups */
+  readonly inflight = new Map<string, Promise<VideoMetadata>>();
+
+  constructor(options?: MetadataCacheOptions) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /** Cached metadata or negative (not found) error; undefined on miss/expiry */
+  get(key: string): VideoMetadata | PlayerError | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() > entry.expires) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Refresh LRU position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /** Cache metadata for `ttl` */
+  set(key: string, meta: VideoMetadata): void {
+    this.store(key, meta, this.options.ttl);
+  }
+
+  /** Cache a "not found" answer for `negativeTtl` */
+  setMissing(key: string, error: PlayerError): void {
+    this.store(key, error, this.options.negativeTtl);
+  }
+
+  /** Endpoint that last answered for this key */
+  getEndpoint(key: string): 'embed' | 'watch' | undefined {
+    return this.endpoints.get(key);
+  }
+
+  setEndpoint(key: string, endpoint: 'embed' | 'watch'): void {
+    this.endpoints.delete(key);
+    this.endpoints.set(key, endpoint);
+    // Same bound as the entries — drop the oldest hints first
+    while (this.endpoints.size > this.options.maxEntries) {
+      this.endpoints.delete(this.endpoints.keys().next().value!);
+    }
+  }
+
+  /** Drop one entry */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Drop all cached metadata and endpoint hints */
+  clear(): void {
+    this.entries.clear();
+    this.endpoints.clear();
+  }
+
+  /** Number of cached entries (including negative ones) */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private store(key: string, value: VideoMetadata | PlayerError, ttl: number): void {
+    if (ttl <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + ttl });
+    while (this.entries.size > this.options.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+/** Cache shared by every ThreeSpeakApi instance unless one is passed explicitly */
+export const metadataCache = new MetadataCache();
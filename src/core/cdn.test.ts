@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CdnManager } from './cdn';
+import { createMockApi } from '../testing';
+
+const PRIMARY = 'https://cdn.mock.3speak.test/alice/intro/manifest.m3u8';
+const FALLBACK = 'https://fallback.mock.3speak.test/alice/intro/manifest.m3u8';
+const BACKUP = 'https://backup.mock.3speak.test/alice/intro/manifest.m3u8';
+
+describe('CdnManager circuit breaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after failureThreshold consecutive failures', () => {
+    const cdn = new CdnManager({ failureThreshold: 3 });
+    cdn.recordFailure(PRIMARY);
+    cdn.recordFailure(PRIMARY);
+    expect(cdn.isAvailable(PRIMARY)).toBe(true);
+
+    cdn.recordFailure(PRIMARY);
+    expect(cdn.isAvailable(PRIMARY)).toBe(false);
+    expect(cdn.getHealth(PRIMARY)).toMatchObject({ host: 'cdn.mock.3speak.test', failures: 3, open: true });
+    // Health is per host, not per URL
+    expect(cdn.isAvailable('https://cdn.mock.3speak.test/bob/talk/manifest.m3u8')).toBe(false);
+    expect(cdn.isAvailable(FALLBACK)).toBe(true);
+  });
+
+  it('resets the failure count on success', () => {
+    const cdn = new CdnManager({ failureThreshold: 2 });
+    cdn.recordFailure(PRIMARY);
+    cdn.recordSuccess(PRIMARY, 50);
+    cdn.recordFailure(PRIMARY);
+    expect(cdn.isAvailable(PRIMARY)).toBe(true);
+    expect(cdn.getHealth(PRIMARY)).toMatchObject({ failures: 1, successes: 1, latency: 50 });
+  });
+
+  it.each([
+    ['nothing tripped', [], [PRIMARY, FALLBACK, BACKUP]],
+    ['the primary tripped', [PRIMARY], [FALLBACK, BACKUP, PRIMARY]],
+    ['two hosts tripped', [PRIMARY, FALLBACK], [BACKUP, PRIMARY, FALLBACK]],
+    ['every host tripped', [PRIMARY, FALLBACK, BACKUP], [PRIMARY, FALLBACK, BACKUP]],
+  ])('orders the chain with %s', (_case, tripped, expected) => {
+    const cdn = new CdnManager();
+    for (const url of tripped) {
+      cdn.recordFailure(url);
+      cdn.recordFailure(url);
+    }
+    expect(cdn.order([PRIMARY, FALLBACK, BACKUP])).toEqual(expected);
+  });
+
+  it('half-opens after the cooldown and closes on a successful trial', () => {
+    const cdn = new CdnManager({ failureThreshold: 2, cooldown: 60_000 });
+    cdn.recordFailure(PRIMARY);
+    cdn.recordFailure(PRIMARY);
+
+    vi.advanceTimersByTime(59_999);
+    expect(cdn.order([PRIMARY, FALLBACK])).toEqual([FALLBACK, PRIMARY]);
+
+    vi.advanceTimersByTime(1);
+    expect(cdn.isAvailable(PRIMARY)).toBe(true);
+    expect(cdn.order([PRIMARY, FALLBACK])).toEqual([PRIMARY, FALLBACK]);
+
+    cdn.recordSuccess(PRIMARY);
+    expect(cdn.getHealth(PRIMARY)).toMatchObject({ failures: 0, open: false });
+  });
+
+  it('reopens for a full cooldown when the trial fails', () => {
+    const cdn = new CdnManager({ failureThreshold: 2, cooldown: 60_000 });
+    cdn.recordFailure(PRIMARY);
+    cdn.recordFailure(PRIMARY);
+    vi.advanceTimersByTime(60_000);
+
+    cdn.recordFailure(PRIMARY);
+    expect(cdn.isAvailable(PRIMARY)).toBe(false);
+    vi.advanceTimersByTime(59_999);
+    expect(cdn.isAvailable(PRIMARY)).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(cdn.isAvailable(PRIMARY)).toBe(true);
+  });
+});
+
+describe('CdnManager.race', () => {
+  const mock = createMockApi({ videos: [{ owner: 'alice', permlink: 'intro' }] });
+
+  beforeEach(() => {
+    mock.reset();
+    mock.install();
+  });
+
+  afterEach(() => {
+    mock.restore();
+    vi.useRealTimers();
+  });
+
+  it('resolves with the first host to answer and records its latency', async () => {
+    const cdn = new CdnManager();
+    mock.fail('cdn.mock', 'network');
+
+    expect(await cdn.race([PRIMARY, FALLBACK])).toBe(FALLBACK);
+    expect(cdn.getHealth(FALLBACK).successes).toBe(1);
+    expect(cdn.getHealth(FALLBACK).latency).not.toBeNull();
+    expect(cdn.getHealth(PRIMARY).failures).toBe(1);
+  });
+
+  it('resolves null when every host fails', async () => {
+    const cdn = new CdnManager();
+    mock.fail('/manifest.m3u8', 503);
+    expect(await cdn.race([PRIMARY, FALLBACK])).toBeNull();
+  });
+
+  it.each([
+    ['a single candidate', [PRIMARY], [], PRIMARY],
+    ['only tripped hosts', [PRIMARY, FALLBACK], [PRIMARY, FALLBACK], null],
+    ['one host left untripped', [PRIMARY, FALLBACK], [PRIMARY], FALLBACK],
+  ])('skips the request with %s', async (_case, urls, tripped, expected) => {
+    const cdn = new CdnManager();
+    for (const url of tripped) {
+      cdn.recordFailure(url);
+      cdn.recordFailure(url);
+    }
+    expect(await cdn.race(urls)).toBe(expected);
+    expect(mock.requests).toEqual([]);
+  });
+
+  it('resolves null without requests when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await new CdnManager().race([PRIMARY, FALLBACK], controller.signal)).toBeNull();
+    expect(mock.requests).toEqual([]);
+  });
+
+  it('aborts every request when the signal fires, without blaming the hosts', async () => {
+    const slow = createMockApi({ videos: [{ owner: 'alice', permlink: 'intro' }], latency: 1000 });
+    slow.install();
+    const cdn = new CdnManager();
+    const controller = new AbortController();
+
+    const race = cdn.race([PRIMARY, FALLBACK], controller.signal);
+    controller.abort();
+    expect(await race).toBeNull();
+    expect(cdn.getHealth(PRIMARY).failures).toBe(0);
+    expect(cdn.getHealth(FALLBACK).failures).toBe(0);
+    slow.restore();
+  });
+
+  it('resolves null once raceTimeout passes', async () => {
+    vi.useFakeTimers();
+    const slow = createMockApi({ videos: [{ owner: 'alice', permlink: 'intro' }], latency: 10_000 });
+    slow.install();
+    const cdn = new CdnManager({ raceTimeout: 4000 });
+
+    const race = cdn.race([PRIMARY, FALLBACK]);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(await race).toBeNull();
+    slow.restore();
+  });
+});
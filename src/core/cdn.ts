@@ -0,0 +1,161 @@
+import type { CdnConfig, CdnHostHealth } from '../types';
+
+const DEFAULT_CONFIG: Required<CdnConfig> = {
+  failureThreshold: 2,
+  cooldown: 60000,
+  raceTimeout: 4000,
+  debug: false,
+};
+
+interface HostRecord {
+  score: number;
+  failures: number;
+  successes: number;
+  lastFailure: number | null;
+  latency: number | null;
+}
+
+/**
+ * Per-host CDN health tracker with a circuit breaker.
+ *
+ * - Scores each host 0-1 from recent successes/failures (exponentially weighted)
+ * - Opens the circuit after `failureThreshold` consecutive failures, so the host is
+ *   skipped for `cooldown` ms; after that it gets one trial request (half-open)
+ * - Can race manifest requests across hosts to pick the fastest at startup
+ *
+ * A single shared instance (`cdnManager`) is used by every Player and PlayerPool
+ * unless one is passed through `PlayerConfig.cdn`, so health learned by one
+ * player benefits the rest.
+ */
+export class CdnManager {
+  private config: Required<CdnConfig>;
+  private hosts = new Map<string, HostRecord>();
+
+  constructor(config?: CdnConfig) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  private log(...args: unknown[]) {
+    if (this.config.debug) console.log('[3Speak CDN]', ...args);
+  }
+
+  /** Record a successful request (optionally with its latency in ms) */
+  recordSuccess(url: string, latency?: number): void {
+    const record = this.record(url);
+    record.score = record.score * 0.7 + 0.3;
+    record.failures = 0;
+    record.successes++;
+    if (latency !== undefined) {
+      record.latency = record.latency === null ? latency : record.latency * 0.7 + latency * 0.3;
+    }
+  }
+
+  /** Record a failed request */
+  recordFailure(url: string, reason?: string): void {
+    const record = this.record(url);
+    record.score *= 0.5;
+    record.failures++;
+    record.lastFailure = Date.now();
+    this.log('Failure on', hostOf(url), `(${record.failures}x)`, reason || '');
+  }
+
+  /** Health snapshot for the host serving `url` */
+  getHealth(url: string): CdnHostHealth {
+    const host = hostOf(url);
+    const record = this.hosts.get(host);
+    if (!record) {
+      return { host, score: 1, failures: 0, successes: 0, lastFailure: null, latency: null, open: false };
+    }
+    return { host, ...record, open: this.isOpen(record) };
+  }
+
+  /** Whether the host serving `url` may be tried (circuit closed or half-open) */
+  isAvailable(url: string): boolean {
+    const record = this.hosts.get(hostOf(url));
+    return !record || !this.isOpen(record);
+  }
+
+  /**
+   * Order a fallback chain for a new load: hosts with an open circuit move to the
+   * back, everything else keeps its priority order.
+   */
+  order(urls: string[]): string[] {
+    const available = urls.filter((url) => this.isAvailable(url));
+    const tripped = urls.filter((url) => !this.isAvailable(url));
+    return [...available, ...tripped];
+  }
+
+  /**
+   * Request the manifest from every candidate at once and resolve with the first
+   * URL that answers. Losers are aborted; results feed the health scores.
+   * @param signal - Abort the whole race (e.g. its load was superseded)
+   * @returns The fastest URL, or null if none answered in time (or the race was aborted)
+   */
+  async race(urls: string[], signal?: AbortSignal): Promise<string | null> {
+    const candidates = urls.filter((url) => this.isAvailable(url));
+    if (candidates.length === 0 || signal?.aborted) return null;
+    if (candidates.length === 1) return candidates[0];
+
+    const controllers = candidates.map(() => new AbortController());
+    const abortAll = () => controllers.forEach((c) => c.abort());
+    const timer = setTimeout(abortAll, this.config.raceTimeout);
+    signal?.addEventListener('abort', abortAll, { once: true });
+    const started = performance.now();
+
+    try {
+      const winner = await new Promise<string>((resolve, reject) => {
+        let pending = candidates.length;
+        candidates.forEach(async (url, i) => {
+          try {
+            const resp = await fetch(url, { mode: 'cors', credentials: 'omit', signal: controllers[i].signal });
+            if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+            this.recordSuccess(url, performance.now() - started);
+            resolve(url);
+          } catch (e) {
+            if (!controllers[i].signal.aborted) this.recordFailure(url, (e as Error).message);
+            if (--pending === 0) reject(e);
+          }
+        });
+      });
+      this.log('Race won by', hostOf(winner));
+      return winner;
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortAll);
+      abortAll();
+    }
+  }
+
+  /** Forget all health data */
+  reset(): void {
+    this.hosts.clear();
+  }
+
+  private record(url: string): HostRecord {
+    const host = hostOf(url);
+    let record = this.hosts.get(host);
+    if (!record) {
+      record = { score: 1, failures: 0, successes: 0, lastFailure: null, latency: null };
+      this.hosts.set(host, record);
+    }
+    return record;
+  }
+
+  private isOpen(record: HostRecord): boolean {
+    if (record.failures < this.config.failureThreshold || record.lastFailure === null) return false;
+    return Date.now() - record.lastFailure < this.config.cooldown;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/** Shared CDN health tracker used by default */
+export const cdnManager = new CdnManager();
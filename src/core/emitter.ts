@@ -0,0 +1,55 @@
+import type { EventUnsubscribe } from '../types';
+
+/** Map of event name → handler signature */
+export type EventMap<E> = { [K in keyof E]: (...args: any[]) => void };
+
+/**
+ * Minimal type-safe event emitter shared by Player and its companion modules.
+ * Handler exceptions are caught and logged so one bad listener can't break playback.
+ */
+export class Emitter<E extends EventMap<E>> {
+  private listeners = new Map<keyof E, Set<Function>>();
+
+  /** @param label - Log prefix used when a handler throws */
+  constructor(private readonly label = '[3Speak]') {}
+
+  /**
+   * Subscribe to an event.
+   * @returns Unsubscribe function
+   */
+  on<T extends keyof E>(event: T, handler: E[T]): EventUnsubscribe {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /** Unsubscribe from an event. */
+  off<T extends keyof E>(event: T, handler: E[T]): void {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  /** Subscribe to an event, auto-unsubscribe after first call. */
+  once<T extends keyof E>(event: T, handler: E[T]): EventUnsubscribe {
+    const wrapped = ((...args: unknown[]) => {
+      unsub();
+      (handler as Function)(...args);
+    }) as E[T];
+    const unsub = this.on(event, wrapped);
+    return unsub;
+  }
+
+  protected emit<T extends keyof E>(event: T, ...args: Parameters<E[T]>): void {
+    this.listeners.get(event)?.forEach((handler) => {
+      try {
+        (handler as Function)(...args);
+      } catch (e) {
+        console.error(`${this.label} Error in ${String(event)} handler:`, e);
+      }
+    });
+  }
+
+  /** Remove every listener for every event. */
+  protected removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
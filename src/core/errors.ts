@@ -0,0 +1,92 @@
+/**
+ * Stable error codes. Values are plain strings so they survive serialization
+ * (analytics, postMessage, logs) unchanged.
+ */
+export const PlayerErrorCode = {
+  /** The ref is malformed (expected "author/permlink") */
+  INVALID_REF: 'INVALID_REF',
+  /** The 3Speak API has no video for this ref */
+  VIDEO_NOT_FOUND: 'VIDEO_NOT_FOUND',
+  /** The 3Speak API could not be reached or returned a server error */
+  API_UNAVAILABLE: 'API_UNAVAILABLE',
+  /** The HLS manifest could not be loaded from a source */
+  MANIFEST_LOAD_FAILED: 'MANIFEST_LOAD_FAILED',
+  /** Segment or other network failure during playback */
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  /** Every URL in the fallback chain failed */
+  ALL_SOURCES_FAILED: 'ALL_SOURCES_FAILED',
+  /** The media could not be decoded */
+  MEDIA_DECODE: 'MEDIA_DECODE',
+  /** The browser rejected the source format */
+  MEDIA_UNSUPPORTED: 'MEDIA_UNSUPPORTED',
+  /** Neither hls.js (MSE) nor native HLS is available */
+  HLS_UNSUPPORTED: 'HLS_UNSUPPORTED',
+  /** The operation was cancelled */
+  ABORTED: 'ABORTED',
+  /** A method that needs a <video> element was called before attach() */
+  NOT_ATTACHED: 'NOT_ATTACHED',
+  /** The player was used after destroy() */
+  DESTROYED: 'DESTROYED',
+  /** Anything not covered above */
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+export type PlayerErrorCode = (typeof PlayerErrorCode)[keyof typeof PlayerErrorCode];
+
+export interface PlayerErrorOptions {
+  /** Playback cannot continue (default: true) */
+  fatal?: boolean;
+  /** Underlying error (hls.js error data, fetch TypeError, nested PlayerError…) */
+  cause?: unknown;
+  /** Source URL involved (manifest URL or API URL) */
+  url?: string;
+  /** Position in the source chain when the error happened (0 = primary) */
+  fallbackIndex?: number;
+  /** HTTP status or MediaError code, when there is one */
+  status?: number;
+}
+
+/**
+ * Error thrown by ThreeSpeakApi / Player methods and emitted through the
+ * player's `error` event. Branch on `code` rather than parsing `message`.
+ *
+ * @example
+ * ```js
+ * player.on('error', (err) => {
+ *   if (err.code === 'VIDEO_NOT_FOUND') showNotFound();
+ *   else if (err.code === 'ALL_SOURCES_FAILED') showCdnDown();
+ * });
+ * ```
+ */
+export class PlayerError extends Error {
+  readonly code: PlayerErrorCode;
+  readonly fatal: boolean;
+  readonly cause?: unknown;
+  readonly url?: string;
+  readonly fallbackIndex?: number;
+  readonly status?: number;
+
+  constructor(code: PlayerErrorCode, message: string, options: PlayerErrorOptions = {}) {
+    super(message);
+    this.name = 'PlayerError';
+    this.code = code;
+    this.fatal = options.fatal ?? true;
+    this.cause = options.cause;
+    this.url = options.url;
+    this.fallbackIndex = options.fallbackIndex;
+    this.status = options.status;
+  }
+}
+
+/** Non-fatal ABORTED error for cancelled operations */
+export function abortError(message = 'The operation was aborted', url?: string): PlayerError {
+  return new PlayerError(PlayerErrorCode.ABORTED, message, { fatal: false, url });
+}
+
+/** Type guard for PlayerError (works across bundle copies, unlike instanceof) */
+export function isPlayerError(value: unknown): value is PlayerError {
+  return (
+    value instanceof PlayerError ||
+    (value instanceof Error && value.name === 'PlayerError' && typeof (value as PlayerError).code === 'string')
+  );
+}
@@ -0,0 +1,317 @@
+import { Emitter } from './emitter';
+import type { PlayerPool } from './pool';
+import type { FeedOptions, FeedEvents, PlaylistItem } from '../types';
+
+const DEFAULT_OPTIONS: Required<FeedOptions> = {
+  window: 1,
+  prefetch: 2,
+  threshold: 0.6,
+  root: null,
+  rootMargin: '0px',
+  scrollIntoView: true,
+};
+
+interface FeedSlot {
+  id: string;
+  /** null with a recycling pool, which moves its own <video> into `target` */
+  video: HTMLVideoElement | null;
+  /** Element observed for visibility (the slot wrapper, or the video itself) */
+  target: Element;
+  source: PlaylistItem;
+}
+
+/** Identity of a source for change detection */
+function sourceKey(source: PlaylistItem): string {
+  return typeof source === 'string' ? source.replace(/^@/, '') : source.url;
+}
+
+/**
+ * Viewport-driven controller for a PlayerPool.
+ *
+ * Handles:
+ * - Activating the most visible slot as the user scrolls (IntersectionObserver)
+ * - Keeping players alive for a window of slots around the active one
+ * - Prefetching manifests further ahead
+ * - next / previous navigation (e.g. from gesture swipes)
+ * - Recycling pools: binding the pool's players to slots as they enter the window
+ *
+ * @example
+ * ```js
+ * const pool = new PlayerPool({ muted: true, loop: true });
+ * const feed = new FeedController(pool, { window: 1, prefetch: 3 });
+ *
+ * for (const { ref, slot } of items) {
+ *   feed.register(ref, slot.querySelector('video'), ref, slot);
+ * }
+ * feed.on('activechange', ({ id, previousId }) => console.log(previousId, '→', id));
+ * feed.on('end', () => loadMoreItems());
+ * ```
+ */
+export class FeedController extends Emitter<FeedEvents> {
+  private pool: PlayerPool;
+  private options: Required<FeedOptions>;
+  private slots: FeedSlot[] = [];
+  /** Latest intersection ratio per slot id */
+  private ratios = new Map<string, number>();
+  /** Source key each pooled player was loaded with */
+  private loaded = new Map<string, string>();
+  private prefetched = new Set<string>();
+  private observer: IntersectionObserver | null = null;
+  private activeId: string | null = null;
+
+  constructor(pool: PlayerPool, options?: FeedOptions) {
+    super('[3Speak Feed]');
+    this.pool = pool;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    // The active slot and `window` slots on each side are bound at the same time
+    const needed = 2 * this.options.window + 1;
+    if (pool.recycling && pool.slots.length < needed) {
+      throw new Error(
+        `FeedController with window ${this.options.window} needs a recycling pool of at least ${needed} players ` +
+        `(got ${pool.slots.length})`,
+      );
+    }
+
+    // Without IntersectionObserver (SSR, old browsers) the feed is driven by activate()/next()
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver((entries) => this.handleIntersections(entries), {
+        root: this.options.root,
+        rootMargin: this.options.rootMargin,
+        threshold: [0, 0.25, 0.5, 0.75, 1],
+      });
+    }
+  }
+
+  // ─── Slots ───
+
+  /**
+   * Add a slot to the end of the feed (or update it in place if the id exists).
+   * @param id - Unique identifier, also used as the pool id
+   * @param video - The <video> element the slot's player attaches to; null with a recycling
+   *   pool, which moves one of its own <video> elements into `target` instead
+   * @param source - "author/permlink" ref or VideoSource
+   * @param target - Element observed for visibility (default: the video; required when `video` is null)
+   */
+  register(id: string, video: HTMLVideoElement, source: PlaylistItem, target?: Element): void;
+  register(id: string, video: null, source: PlaylistItem, target: Element): void;
+  register(id: string, video: HTMLVideoElement | null, source: PlaylistItem, target?: Element): void {
+    const observed = target || video;
+    if (!observed) throw new Error('FeedController.register() needs a target element when video is null');
+    const slot: FeedSlot = { id, video, source, target: observed };
+    const index = this.indexOf(id);
+    if (index === -1) {
+      this.slots.push(slot);
+    } else {
+      const previous = this.slots[index];
+      this.observer?.unobserve(previous.target);
+      if (previous.video !== video || sourceKey(previous.source) !== sourceKey(source)) {
+        this.pool.remove(id);
+        this.loaded.delete(id);
+      }
+      this.slots[index] = slot;
+    }
+    this.observer?.observe(observed);
+    if (this.activeId) this.sync();
+  }
+
+  /** Remove a slot and its player */
+  unregister(id: string): void {
+    const index = this.indexOf(id);
+    if (index === -1) return;
+
+    const [slot] = this.slots.splice(index, 1);
+    this.observer?.unobserve(slot.target);
+    this.ratios.delete(id);
+    this.loaded.delete(id);
+    this.prefetched.delete(id);
+    this.pool.remove(id);
+    if (this.activeId === id) {
+      this.activeId = null;
+      this.activateMostVisible();
+    } else if (this.activeId) {
+      this.sync();
+    }
+  }
+
+  /** Remove every slot and player */
+  clear(): void {
+    this.observer?.disconnect();
+    this.pool.retainOnly([]);
+    this.slots = [];
+    this.ratios.clear();
+    this.loaded.clear();
+    this.prefetched.clear();
+    this.activeId = null;
+  }
+
+  // ─── Navigation ───
+
+  /**
+   * Make a slot active: play it, pause the rest, and update the player window.
+   * Scrolls it into view unless `scrollIntoView` is off.
+   */
+  activate(id: string): void {
+    const index = this.indexOf(id);
+    if (index === -1) return;
+    if (this.options.scrollIntoView) {
+      this.slots[index].target.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+    }
+    this.setActive(index);
+  }
+
+  /**
+   * Activate the slot after the active one.
+   * @returns false at the end of the feed
+   */
+  next(): boolean {
+    const index = this.activeIndex + 1;
+    if (index >= this.slots.length) return false;
+    this.activate(this.slots[index].id);
+    return true;
+  }
+
+  /**
+   * Activate the slot before the active one.
+   * @returns false at the start of the feed
+   */
+  previous(): boolean {
+    const index = this.activeIndex - 1;
+    if (index < 0) return false;
+    this.activate(this.slots[index].id);
+    return true;
+  }
+
+  /** Id of the active slot */
+  get activeSlotId(): string | null {
+    return this.activeId;
+  }
+
+  /** Position of the active slot (-1 if none) */
+  get activeIndex(): number {
+    return this.activeId ? this.indexOf(this.activeId) : -1;
+  }
+
+  /** Registered slot ids in feed order */
+  get ids(): string[] {
+    return this.slots.map((slot) => slot.id);
+  }
+
+  /** Stop observing and remove listeners. The pool (and its players) is left to the caller. */
+  destroy(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.slots = [];
+    this.ratios.clear();
+    this.loaded.clear();
+    this.prefetched.clear();
+    this.activeId = null;
+    this.removeAllListeners();
+  }
+
+  // ─── Private ───
+
+  private indexOf(id: string): number {
+    return this.slots.findIndex((slot) => slot.id === id);
+  }
+
+  private handleIntersections(entries: IntersectionObserverEntry[]): void {
+    for (const entry of entries) {
+      const slot = this.slots.find((s) => s.target === entry.target);
+      if (slot) this.ratios.set(slot.id, entry.isIntersecting ? entry.intersectionRatio : 0);
+    }
+    this.activateMostVisible();
+  }
+
+  /** Activate the most visible slot above the threshold; the current one wins ties */
+  private activateMostVisible(): void {
+    let best = this.activeId ? this.indexOf(this.activeId) : -1;
+    let bestRatio = best === -1 ? 0 : this.ratios.get(this.activeId!) || 0;
+    this.slots.forEach((slot, index) => {
+      const ratio = this.ratios.get(slot.id) || 0;
+      if (ratio > bestRatio) {
+        best = index;
+        bestRatio = ratio;
+      }
+    });
+    if (best !== -1 && bestRatio >= this.options.threshold) this.setActive(best);
+  }
+
+  private setActive(index: number): void {
+    const slot = this.slots[index];
+    const previousId = this.activeId;
+    if (slot.id === previousId) return;
+
+    this.activeId = slot.id;
+    this.sync();
+    this.pool.activate(slot.id).catch((error) => this.playFailed(slot.id, error));
+    // A freshly created player can't play until its source is ready
+    const player = this.pool.get(slot.id);
+    if (player && !player.getState().ready) {
+      player.once('ready', () => {
+        if (this.activeId === slot.id) player.play().catch((error) => this.playFailed(slot.id, error));
+      });
+    }
+    this.emit('activechange', { id: slot.id, previousId, index });
+    if (index === this.slots.length - 1) this.emit('end');
+  }
+
+  /** Report a rejected play(), unless it was just interrupted by a pause or a new load */
+  private playFailed(id: string, error: unknown): void {
+    if (error instanceof DOMException && error.name === 'AbortError') return;
+    if (this.activeId === id) this.emit('playfailed', { id, error });
+  }
+
+  /** Create/load players inside the window, destroy the rest, prefetch ahead */
+  private sync(): void {
+    const center = this.activeIndex;
+    if (center === -1) return;
+
+    const { window: size, prefetch } = this.options;
+    const start = Math.max(0, center - size);
+    const end = Math.min(this.slots.length - 1, center + size);
+    // Active slot first, then outwards, so a recycling pool never hands the active slot's player to a neighbour
+    const indices: number[] = [];
+    for (let i = start; i <= end; i++) indices.push(i);
+    indices.sort((a, b) => Math.abs(a - center) - Math.abs(b - center));
+    const keep = indices.map((i) => this.slots[i].id);
+
+    // Free players outside the window before binding/creating the new ones
+    this.pool.retainOnly(keep);
+    for (const id of this.loaded.keys()) {
+      if (!keep.includes(id)) this.loaded.delete(id);
+    }
+
+    for (const i of indices) {
+      const slot = this.slots[i];
+      if (this.pool.recycling) {
+        // bind() only reloads when the slot's source changed
+        this.pool.bind(slot.id, slot.target as HTMLElement, slot.source);
+        continue;
+      }
+
+      const key = sourceKey(slot.source);
+      if (!slot.video) continue;
+      if (this.pool.get(slot.id)?.element === slot.video && this.loaded.get(slot.id) === key) continue;
+
+      const player = this.pool.add(slot.id, slot.video);
+      this.loaded.set(slot.id, key);
+      // Failures surface through the player's error event; superseded loads reject with ABORTED
+      player.load(slot.source).catch(() => {});
+    }
+
+    for (let i = end + 1; i <= Math.min(this.slots.length - 1, end + prefetch); i++) {
+      const slot = this.slots[i];
+      if (this.prefetched.has(slot.id)) continue;
+      this.prefetched.add(slot.id);
+      let request: Promise<void>;
+      if (typeof slot.source === 'string') {
+        const [author, permlink] = slot.source.replace(/^@/, '').split('/');
+        request = this.pool.prefetchByRef(author, permlink);
+      } else {
+        request = this.pool.prefetch(slot.source.url);
+      }
+      request.catch(() => this.prefetched.delete(slot.id));
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePlaylist,
+  parseMasterPlaylist,
+  parseMediaPlaylist,
+  lowestBandwidthVariant,
+  resolveUrl,
+  parseAttributes,
+} from './m3u8';
+import { createMasterPlaylist, createMediaPlaylist } from '../testing';
+
+const MANIFEST = 'https://cdn.example.com/alice/intro/manifest.m3u8';
+
+/** A master playlist with one variant per `[attributes, uri]` pair */
+function master(...variants: [string, string][]): string {
+  return ['#EXTM3U', ...variants.flatMap(([attrs, uri]) => [`#EXT-X-STREAM-INF:${attrs}`, uri])].join('\n');
+}
+
+describe('resolveUrl', () => {
+  it.each([
+    ['720p/index.m3u8', 'https://cdn.example.com/alice/intro/720p/index.m3u8'],
+    ['../outro/manifest.m3u8', 'https://cdn.example.com/alice/outro/manifest.m3u8'],
+    ['/bob/talk/480p.m3u8', 'https://cdn.example.com/bob/talk/480p.m3u8'],
+    ['//mirror.example.org/alice/intro/720p.m3u8', 'https://mirror.example.org/alice/intro/720p.m3u8'],
+    ['https://other.example.net/720p.m3u8?token=abc', 'https://other.example.net/720p.m3u8?token=abc'],
+  ])('resolves %s', (ref, expected) => {
+    expect(resolveUrl(ref, MANIFEST)).toBe(expected);
+  });
+});
+
+describe('parseAttributes', () => {
+  it.each([
+    ['BANDWIDTH=800000,RESOLUTION=640x360', { BANDWIDTH: '800000', RESOLUTION: '640x360' }],
+    ['CODECS="avc1.4d401f,mp4a.40.2",BANDWIDTH=1', { CODECS: 'avc1.4d401f,mp4a.40.2', BANDWIDTH: '1' }],
+    ['TYPE=AUDIO,NAME="English, Main"', { TYPE: 'AUDIO', NAME: 'English, Main' }],
+    ['', {}],
+  ])('parses %j', (list, expected) => {
+    expect(parseAttributes(list)).toEqual(expected);
+  });
+});
+
+describe('parseMasterPlaylist', () => {
+  it.each([
+    ['relative', '720p/index.m3u8', 'https://cdn.example.com/alice/intro/720p/index.m3u8'],
+    ['parent-relative', '../shared/720p.m3u8', 'https://cdn.example.com/alice/shared/720p.m3u8'],
+    ['root-relative', '/hls/720p.m3u8', 'https://cdn.example.com/hls/720p.m3u8'],
+    ['absolute', 'https://mirror.example.org/720p.m3u8', 'https://mirror.example.org/720p.m3u8'],
+  ])('resolves %s variant URIs against the manifest URL', (_kind, uri, expected) => {
+    const { variants } = parseMasterPlaylist(master(['BANDWIDTH=2000000', uri]), MANIFEST);
+    expect(variants.map((v) => v.uri)).toEqual([expected]);
+  });
+
+  it.each([
+    [
+      'all attributes',
+      'BANDWIDTH=2000000,AVERAGE-BANDWIDTH=1500000,RESOLUTION=1280x720,CODECS="avc1.64001f,mp4a.40.2",FRAME-RATE=29.970,AUDIO="aac"',
+      {
+        bandwidth: 2000000,
+        averageBandwidth: 1500000,
+        width: 1280,
+        height: 720,
+        codecs: ['avc1.64001f', 'mp4a.40.2'],
+        frameRate: 29.97,
+        audio: 'aac',
+        subtitles: null,
+      },
+    ],
+    [
+      'missing BANDWIDTH',
+      'RESOLUTION=640x360',
+      { bandwidth: 0, averageBandwidth: null, width: 640, height: 360, codecs: [], frameRate: null },
+    ],
+    [
+      'missing RESOLUTION (audio only)',
+      'BANDWIDTH=64000,CODECS="mp4a.40.2"',
+      { bandwidth: 64000, width: 0, height: 0, codecs: ['mp4a.40.2'] },
+    ],
+  ])('reads STREAM-INF with %s', (_case, attrs, expected) => {
+    const { variants } = parseMasterPlaylist(master([attrs, 'v.m3u8']), MANIFEST);
+    expect(variants).toHaveLength(1);
+    expect(variants[0]).toMatchObject(expected);
+  });
+
+  it('reads alternate renditions', () => {
+    const text = createMasterPlaylist({
+      audio: [{ name: 'English', language: 'en', default: true, uri: 'audio/en.m3u8' }],
+      subtitles: [{ name: 'Español', language: 'es', uri: 'https://subs.example.org/es.m3u8' }],
+    });
+    const { renditions } = parseMasterPlaylist(text, MANIFEST);
+    expect(renditions).toEqual([
+      {
+        type: 'AUDIO',
+        groupId: 'audio',
+        name: 'English',
+        language: 'en',
+        default: true,
+        autoselect: true,
+        uri: 'https://cdn.example.com/alice/intro/audio/en.m3u8',
+      },
+      {
+        type: 'SUBTITLES',
+        groupId: 'subs',
+        name: 'Español',
+        language: 'es',
+        default: false,
+        autoselect: true,
+        uri: 'https://subs.example.org/es.m3u8',
+      },
+    ]);
+  });
+
+  it('ignores a STREAM-INF tag with no URI line', () => {
+    const { variants } = parseMasterPlaylist('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1\n', MANIFEST);
+    expect(variants).toEqual([]);
+  });
+});
+
+describe('lowestBandwidthVariant', () => {
+  it.each([
+    ['unsorted variants', [['BANDWIDTH=2800000', 'high'], ['BANDWIDTH=800000', 'low'], ['BANDWIDTH=1400000', 'mid']], 'low'],
+    ['a variant missing BANDWIDTH', [['BANDWIDTH=2800000', 'high'], ['RESOLUTION=1x1', 'unknown'], ['BANDWIDTH=800000', 'low']], 'low'],
+    ['only variants missing BANDWIDTH', [['RESOLUTION=1280x720', 'first'], ['RESOLUTION=640x360', 'second']], 'first'],
+  ] as [string, [string, string][], string][])('picks from %s', (_case, variants, expected) => {
+    const variant = lowestBandwidthVariant(parseMasterPlaylist(master(...variants), MANIFEST));
+    expect(variant?.uri).toBe(`https://cdn.example.com/alice/intro/${expected}`);
+  });
+
+  it('returns null without variants', () => {
+    expect(lowestBandwidthVariant(parseMasterPlaylist('#EXTM3U', MANIFEST))).toBeNull();
+  });
+});
+
+describe('parseMediaPlaylist', () => {
+  it.each([
+    [
+      'VOD with #EXT-X-ENDLIST',
+      createMediaPlaylist({ duration: 10, segmentDuration: 4 }),
+      { playlistType: 'VOD', endList: true, mediaSequence: 0, sequences: [0, 1, 2] },
+    ],
+    [
+      'live without #EXT-X-ENDLIST',
+      createMediaPlaylist({ duration: 12, segmentDuration: 4, live: { mediaSequence: 120 } }),
+      { playlistType: null, endList: false, mediaSequence: 120, sequences: [120, 121, 122] },
+    ],
+    [
+      'EVENT without #EXT-X-ENDLIST',
+      '#EXTM3U\n#EXT-X-PLAYLIST-TYPE:EVENT\n#EXTINF:4,\na.ts\n#EXTINF:4,\nb.ts',
+      { playlistType: 'EVENT', endList: false, mediaSequence: 0, sequences: [0, 1] },
+    ],
+    [
+      'ended EVENT',
+      '#EXTM3U\n#EXT-X-PLAYLIST-TYPE:EVENT\n#EXTINF:4,\na.ts\n#EXT-X-ENDLIST',
+      { playlistType: 'EVENT', endList: true, mediaSequence: 0, sequences: [0] },
+    ],
+  ])('reads %s', (_case, text, { sequences, ...expected }) => {
+    const playlist = parseMediaPlaylist(text, MANIFEST);
+    expect(playlist).toMatchObject(expected);
+    expect(playlist.segments.map((s) => s.sequence)).toEqual(sequences);
+  });
+
+  it('accumulates segment start times and duration', () => {
+    const playlist = parseMediaPlaylist(createMediaPlaylist({ duration: 10, segmentDuration: 4 }), MANIFEST);
+    expect(playlist.targetDuration).toBe(4);
+    expect(playlist.duration).toBe(10);
+    expect(playlist.segments.map((s) => [s.start, s.duration])).toEqual([[0, 4], [4, 4], [8, 2]]);
+  });
+
+  it.each([
+    ['relative', 'seg0.ts', 'https://cdn.example.com/alice/intro/seg0.ts'],
+    ['root-relative', '/media/seg0.ts', 'https://cdn.example.com/media/seg0.ts'],
+    ['absolute', 'https://edge.example.org/seg0.ts', 'https://edge.example.org/seg0.ts'],
+  ])('resolves %s segment URIs', (_kind, uri, expected) => {
+    const playlist = parseMediaPlaylist(`#EXTM3U\n#EXTINF:4,\n${uri}\n#EXT-X-ENDLIST`, MANIFEST);
+    expect(playlist.segments[0].uri).toBe(expected);
+  });
+
+  it('flags discontinuities and carries program date-times forward', () => {
+    const text = [
+      '#EXTM3U',
+      '#EXT-X-PROGRAM-DATE-TIME:2026-01-01T00:00:00.000Z',
+      '#EXTINF:4,',
+      'a.ts',
+      '#EXT-X-DISCONTINUITY',
+      '#EXTINF:4,',
+      'b.ts',
+    ].join('\n');
+    const [a, b] = parseMediaPlaylist(text, MANIFEST).segments;
+    const start = Date.parse('2026-01-01T00:00:00.000Z');
+    expect([a.discontinuity, b.discontinuity]).toEqual([false, true]);
+    expect([a.programDateTime, b.programDateTime]).toEqual([start, start + 4000]);
+  });
+});
+
+describe('parsePlaylist', () => {
+  it.each([
+    ['master', createMasterPlaylist()],
+    ['media', createMediaPlaylist()],
+  ])('detects a %s playlist', (type, text) => {
+    expect(parsePlaylist(text, MANIFEST).type).toBe(type);
+  });
+});
@@ -0,0 +1,158 @@
+import type {
+  HlsPlaylist,
+  HlsMasterPlaylist,
+  HlsMediaPlaylist,
+  HlsVariant,
+  HlsRendition,
+  HlsSegment,
+} from '../types';
+
+/**
+ * Parse an HLS playlist (master or media).
+ * URIs are resolved against `url`, the address the playlist was fetched from.
+ *
+ * @example
+ * ```js
+ * const playlist = parsePlaylist(text, manifestUrl);
+ * if (playlist.type === 'master') console.log(playlist.variants.map((v) => v.height));
+ * else console.log(playlist.endList ? 'VOD' : 'live', playlist.duration);
+ * ```
+ */
+export function parsePlaylist(text: string, url: string): HlsPlaylist {
+  return text.includes('#EXT-X-STREAM-INF') ? parseMasterPlaylist(text, url) : parseMediaPlaylist(text, url);
+}
+
+/** Parse a master playlist's variants and alternate renditions */
+export function parseMasterPlaylist(text: string, url: string): HlsMasterPlaylist {
+  const variants: HlsVariant[] = [];
+  const renditions: HlsRendition[] = [];
+  let pending: Record<string, string> | null = null;
+
+  for (const line of lines(text)) {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      pending = parseAttributes(line.slice(18));
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attrs = parseAttributes(line.slice(13));
+      renditions.push({
+        type: attrs.TYPE as HlsRendition['type'],
+        groupId: attrs['GROUP-ID'] || '',
+        name: attrs.NAME || '',
+        language: attrs.LANGUAGE || null,
+        default: attrs.DEFAULT === 'YES',
+        autoselect: attrs.AUTOSELECT === 'YES',
+        uri: attrs.URI ? resolveUrl(attrs.URI, url) : null,
+      });
+    } else if (pending && !line.startsWith('#')) {
+      const [width, height] = (pending.RESOLUTION || '0x0').split('x').map((n) => parseInt(n, 10) || 0);
+      variants.push({
+        uri: resolveUrl(line, url),
+        bandwidth: parseInt(pending.BANDWIDTH || '0', 10),
+        averageBandwidth: pending['AVERAGE-BANDWIDTH'] ? parseInt(pending['AVERAGE-BANDWIDTH'], 10) : null,
+        width,
+        height,
+        codecs: pending.CODECS ? pending.CODECS.split(',').map((c) => c.trim()) : [],
+        frameRate: pending['FRAME-RATE'] ? parseFloat(pending['FRAME-RATE']) : null,
+        audio: pending.AUDIO || null,
+        subtitles: pending.SUBTITLES || null,
+      });
+      pending = null;
+    }
+  }
+
+  return { type: 'master', url, variants, renditions };
+}
+
+/** Parse a media playlist's segments and live/VOD markers */
+export function parseMediaPlaylist(text: string, url: string): HlsMediaPlaylist {
+  const playlist: HlsMediaPlaylist = {
+    type: 'media',
+    url,
+    targetDuration: 0,
+    mediaSequence: 0,
+    playlistType: null,
+    endList: false,
+    duration: 0,
+    segments: [],
+  };
+  const segments: HlsSegment[] = playlist.segments;
+  let duration: number | null = null;
+  let discontinuity = false;
+  let programDateTime: number | null = null;
+
+  for (const line of lines(text)) {
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice(8)) || 0;
+    } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      playlist.targetDuration = parseFloat(line.slice(22)) || 0;
+    } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      playlist.mediaSequence = parseInt(line.slice(22), 10) || 0;
+    } else if (line.startsWith('#EXT-X-PLAYLIST-TYPE:')) {
+      const type = line.slice(21).trim();
+      playlist.playlistType = type === 'VOD' || type === 'EVENT' ? type : null;
+    } else if (line === '#EXT-X-ENDLIST') {
+      playlist.endList = true;
+    } else if (line === '#EXT-X-DISCONTINUITY') {
+      discontinuity = true;
+    } else if (line.startsWith('#EXT-X-PROGRAM-DATE-TIME:')) {
+      const time = Date.parse(line.slice(25));
+      programDateTime = isNaN(time) ? null : time;
+    } else if (duration !== null && !line.startsWith('#')) {
+      segments.push({
+        uri: resolveUrl(line, url),
+        duration,
+        start: playlist.duration,
+        sequence: playlist.mediaSequence + segments.length,
+        discontinuity,
+        programDateTime,
+      });
+      playlist.duration += duration;
+      // Later segments' dates follow on from the last tagged one
+      if (programDateTime !== null) programDateTime += duration * 1000;
+      duration = null;
+      discontinuity = false;
+    }
+  }
+
+  return playlist;
+}
+
+/**
+ * The variant with the lowest bandwidth (playlist order is not guaranteed to be sorted).
+ * Variants missing BANDWIDTH are only picked when no variant has one.
+ */
+export function lowestBandwidthVariant(master: HlsMasterPlaylist): HlsVariant | null {
+  const known = master.variants.filter((variant) => variant.bandwidth > 0);
+  return (known.length ? known : master.variants).reduce<HlsVariant | null>(
+    (lowest, variant) => (!lowest || variant.bandwidth < lowest.bandwidth ? variant : lowest),
+    null,
+  );
+}
+
+/** Fetch and parse a playlist */
+export async function fetchPlaylist(url: string, signal?: AbortSignal): Promise<HlsPlaylist> {
+  const resp = await fetch(url, { mode: 'cors', credentials: 'omit', signal });
+  if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+  return parsePlaylist(await resp.text(), url);
+}
+
+/** Resolve a (possibly relative) URI against the playlist/track URL */
+export function resolveUrl(ref: string, baseUrl: string): string {
+  const origin = typeof location !== 'undefined' ? location.href : undefined;
+  return new URL(ref, new URL(baseUrl, origin)).href;
+}
+
+/** Parse a comma-separated HLS attribute list (handles quoted values) */
+export function parseAttributes(list: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(list))) {
+    attrs[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attrs;
+}
+
+/** Trimmed, non-empty lines */
+function lines(text: string): string[] {
+  return text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Player } from './player';
+import { PlayerErrorCode, isPlayerError } from './errors';
+import type { PlayerError } from './errors';
+import { createMockApi, FakeVideoElement, TEST_PLAYER_CONFIG, flushPromises, resetPlayerSingletons } from '../testing';
+
+const mock = createMockApi({
+  videos: [
+    { owner: 'alice', permlink: 'intro', duration: 30 },
+    { owner: 'bob', permlink: 'talk', endpoint: 'watch', duration: 120 },
+  ],
+});
+
+const CDN = 'https://cdn.mock.3speak.test';
+const FALLBACK = 'https://fallback.mock.3speak.test';
+
+function createPlayer(config = {}, video = new FakeVideoElement()) {
+  const player = new Player({ ...TEST_PLAYER_CONFIG, ...config }).attach(video.asVideo());
+  return { player, video };
+}
+
+/** Rejection of `promise` (fails the test if it resolves) */
+async function rejection(promise: Promise<unknown>): Promise<PlayerError> {
+  try {
+    await promise;
+  } catch (e) {
+    if (isPlayerError(e)) return e;
+    throw e;
+  }
+  throw new Error('Expected a rejection');
+}
+
+beforeEach(() => {
+  resetPlayerSingletons();
+  mock.reset();
+  mock.install();
+});
+
+afterEach(() => mock.restore());
+
+describe('Player.load', () => {
+  it('fetches the source and becomes ready', async () => {
+    const { player, video } = createPlayer({}, new FakeVideoElement({ duration: 30 }));
+    const events: string[] = [];
+    player.on('loadstart', ({ ref }) => events.push(`loadstart:${ref}`));
+    player.on('ready', () => events.push('ready'));
+
+    await player.load('@alice/intro');
+    await flushPromises();
+
+    expect(events).toEqual(['loadstart:alice/intro', 'ready']);
+    expect(video.srcHistory).toEqual([`${CDN}/alice/intro/manifest.m3u8`]);
+    expect(player.currentRef).toBe('alice/intro');
+    expect(player.getState()).toMatchObject({ ready: true, duration: 30 });
+  });
+
+  it('finds legacy videos on /api/watch', async () => {
+    const { player } = createPlayer();
+    await player.load('bob/talk');
+    expect(player.currentUrl).toBe(`${CDN}/bob/talk/manifest.m3u8`);
+  });
+
+  it('loads a direct source without calling the API', async () => {
+    const { player, video } = createPlayer();
+    await player.load({ url: `${CDN}/alice/intro/manifest.m3u8` });
+    expect(player.currentRef).toBeNull();
+    expect(video.srcHistory).toHaveLength(1);
+    expect(mock.count('/api/')).toBe(0);
+  });
+
+  it('rejects invalid refs and unknown videos', async () => {
+    const { player } = createPlayer();
+    expect((await rejection(player.load('alice'))).code).toBe(PlayerErrorCode.INVALID_REF);
+
+    const errors: PlayerError[] = [];
+    player.on('error', (e) => errors.push(e));
+    const error = await rejection(player.load('alice/missing'));
+    expect(error.code).toBe(PlayerErrorCode.VIDEO_NOT_FOUND);
+    expect(errors).toEqual([error]);
+  });
+
+  it('throws when no element is attached', async () => {
+    const player = new Player(TEST_PLAYER_CONFIG);
+    expect((await rejection(player.load('alice/intro'))).code).toBe(PlayerErrorCode.NOT_ATTACHED);
+  });
+});
+
+describe('fallback', () => {
+  it('moves to the fallback URL when the primary fails', async () => {
+    const { player, video } = createPlayer();
+    const fallbacks: string[] = [];
+    player.on('fallback', ({ url }) => fallbacks.push(url));
+
+    await player.load('alice/intro');
+    await flushPromises();
+    video.fail(2);
+
+    expect(fallbacks).toEqual([`${FALLBACK}/alice/intro/manifest.m3u8`]);
+    expect(video.srcHistory[1]).toBe(`${FALLBACK}/alice/intro/manifest.m3u8`);
+    expect(player.currentUrl).toBe(`${FALLBACK}/alice/intro/manifest.m3u8`);
+  });
+
+  it('reports ALL_SOURCES_FAILED once every source failed', async () => {
+    const { player, video } = createPlayer();
+    const errors: PlayerError[] = [];
+    player.on('error', (e) => errors.push(e));
+
+    await player.load('alice/intro');
+    await flushPromises();
+    video.fail(2);
+    await flushPromises();
+    video.fail(2);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe(PlayerErrorCode.ALL_SOURCES_FAILED);
+  });
+});
+
+describe('abort race', () => {
+  const slow = createMockApi({
+    latency: 20,
+    videos: [
+      { owner: 'alice', permlink: 'intro' },
+      { owner: 'carol', permlink: 'clip' },
+    ],
+  });
+
+  beforeEach(() => {
+    mock.restore();
+    slow.reset();
+    slow.install();
+  });
+
+  afterEach(() => slow.restore());
+
+  it('lets only the newest load reach the element', async () => {
+    const { player, video } = createPlayer();
+    const aborts: { ref: string | null; reason: string }[] = [];
+    player.on('abort', (info) => aborts.push(info));
+
+    const first = player.load('alice/intro');
+    const second = player.load('carol/clip');
+
+    expect((await rejection(first)).code).toBe(PlayerErrorCode.ABORTED);
+    await second;
+    expect(aborts).toEqual([{ ref: 'alice/intro', reason: 'superseded' }]);
+    expect(video.srcHistory).toEqual([`${CDN}/carol/clip/manifest.m3u8`]);
+    expect(player.currentRef).toBe('carol/clip');
+  });
+
+  it('cancels on the caller signal', async () => {
+    const { player, video } = createPlayer();
+    const controller = new AbortController();
+    const loading = player.load('alice/intro', { signal: controller.signal });
+    controller.abort();
+
+    expect((await rejection(loading)).code).toBe(PlayerErrorCode.ABORTED);
+    expect(video.srcHistory).toEqual([]);
+  });
+});
+
+describe('recordViews', () => {
+  it('records one view after the configured watch time', async () => {
+    const { player, video } = createPlayer({ recordViews: { seconds: 5 } });
+    const recorded: string[] = [];
+    player.on('viewrecorded', ({ ref }) => recorded.push(ref));
+
+    await player.load('alice/intro');
+    await flushPromises();
+    await player.play();
+    video.advance(4);
+    expect(mock.views).toEqual([]);
+
+    video.advance(10);
+    await flushPromises();
+    expect(mock.views).toEqual([{ owner: 'alice', permlink: 'intro', type: 'embed' }]);
+    expect(recorded).toEqual(['alice/intro']);
+  });
+
+  it('does not emit viewrecorded when the API rejects the view', async () => {
+    const { player, video } = createPlayer({ recordViews: { seconds: 5 } });
+    const recorded: string[] = [];
+    player.on('viewrecorded', ({ ref }) => recorded.push(ref));
+    mock.fail('/api/view', 503);
+
+    await player.load('alice/intro');
+    await flushPromises();
+    await player.play();
+    video.advance(6);
+    await flushPromises();
+    expect(mock.count('/api/view')).toBe(1);
+
+    mock.clearFailures();
+    mock.fail('/api/view', 'network');
+    await player.load('alice/intro');
+    await flushPromises();
+    await player.play();
+    video.advance(6);
+    await flushPromises();
+    expect(mock.count('/api/view')).toBe(2);
+    expect(recorded).toEqual([]);
+  });
+
+  it('does not count seeks as watch time', async () => {
+    const { player, video } = createPlayer({ recordViews: { seconds: 5 } });
+    await player.load('alice/intro');
+    await flushPromises();
+    await player.play();
+    player.seek(20);
+    video.advance(1);
+    await flushPromises();
+    expect(mock.views).toEqual([]);
+  });
+
+  it('credits playback during a pending load to neither video', async () => {
+    const slow = createMockApi({
+      latency: 20,
+      videos: [
+        { owner: 'alice', permlink: 'intro' },
+        { owner: 'carol', permlink: 'clip' },
+      ],
+    });
+    mock.restore();
+    slow.install();
+    try {
+      const { player, video } = createPlayer({ recordViews: { seconds: 5 } });
+      await player.load('alice/intro');
+      await flushPromises();
+      await player.play();
+      video.advance(3);
+
+      // alice keeps playing while carol's metadata is fetched
+      const next = player.load('carol/clip');
+      video.advance(10);
+      await next;
+      await flushPromises();
+      expect(slow.views).toEqual([]);
+
+      await player.play();
+      video.advance(6);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(slow.views).toEqual([{ owner: 'carol', permlink: 'clip', type: 'embed' }]);
+    } finally {
+      slow.restore();
+    }
+  });
+});
+
+describe('seek', () => {
+  it('ignores non-finite times', async () => {
+    const { player, video } = createPlayer();
+    await player.load('alice/intro');
+    await flushPromises();
+
+    player.seek(Infinity);
+    player.seek(NaN);
+    expect(video.currentTime).toBe(0);
+    player.seek(12);
+    expect(video.currentTime).toBe(12);
+  });
+});
+
+describe('sidecar text tracks', () => {
+  const SOURCE = {
+    url: `${CDN}/alice/intro/manifest.m3u8`,
+    subtitles: [
+      { url: `${CDN}/alice/intro/en.vtt`, lang: 'en', label: 'English' },
+      { url: `${CDN}/alice/intro/es.vtt`, lang: 'es', label: 'Español', default: true },
+    ],
+  };
+
+  it('emits texttrackchange when a source turns on its default track and when the next load removes it', async () => {
+    const { player } = createPlayer();
+    const changes: (string | null)[] = [];
+    player.on('texttrackchange', (id) => changes.push(id));
+
+    await player.load(SOURCE);
+    expect(player.getTextTracks().map((t) => t.id)).toEqual(['sidecar:0', 'sidecar:1']);
+    expect(player.getCurrentTextTrack()).toBe('sidecar:1');
+
+    await player.load('alice/intro');
+    expect(player.getTextTracks()).toEqual([]);
+    expect(player.getCurrentTextTrack()).toBeNull();
+    expect(changes).toEqual(['sidecar:1', null]);
+  });
+
+  it('does not emit when there was no track to turn off', async () => {
+    const { player } = createPlayer();
+    const changes: (string | null)[] = [];
+    player.on('texttrackchange', (id) => changes.push(id));
+
+    await player.load({ ...SOURCE, subtitles: [SOURCE.subtitles[0]] });
+    await player.load('alice/intro');
+    expect(changes).toEqual([]);
+  });
+});
@@ -1,14 +1,33 @@
 import Hls from 'hls.js';
+import type { ErrorData } from 'hls.js';
 import { detectPlatform } from './platform';
 import { ThreeSpeakApi } from './api';
+import { Emitter } from './emitter';
+import { ThumbnailTrack } from './thumbnails';
+import { LocalStorageResumeStore } from './resume';
+import { cdnManager } from './cdn';
+import { PlayerError, PlayerErrorCode, abortError } from './errors';
+import { qualityPreference, maxAllowedLevel, nearestLevel } from './quality';
+import { fetchPlaylist } from './m3u8';
 import type {
   VideoSource,
   PlayerConfig,
   PlayerState,
   PlayerEvents,
-  EventHandler,
-  EventUnsubscribe,
   QualityLevel,
+  Thumbnail,
+  TextTrackSource,
+  TextTrackInfo,
+  AudioTrackInfo,
+  ResumeEntry,
+  RetryPolicy,
+  LoadOptions,
+  LoadAbortReason,
+  PlatformInfo,
+  QualityPolicy,
+  LivePolicy,
+  HlsVariant,
+  HlsMediaPlaylist,
 } from '../types';
 
 const DEFAULT_CONFIG: Required<PlayerConfig> = {
@@ -18,11 +37,65 @@ const DEFAULT_CONFIG: Required<PlayerConfig> = {
   loop: false,
   poster: true,
   hlsConfig: {},
+  reuseHls: false,
+  quality: {},
+  live: {},
   audioOnly: false,
   autopause: false,
   resume: false,
+  resumeStore: new LocalStorageResumeStore(),
+  recordViews: false,
+  retry: {},
+  cdn: cdnManager,
+  raceSources: false,
+  preferredAudioLanguage: '',
+  platform: {},
 };
 
+const DEFAULT_QUALITY: Required<QualityPolicy> = {
+  capToSize: true,
+  dataSaver: false,
+  dataSaverBitrate: 800_000,
+  maxHeight: null,
+  preference: qualityPreference,
+};
+
+const DEFAULT_LIVE: Required<LivePolicy> = {
+  targetLatency: null,
+  catchUp: true,
+  catchUpRate: 1.1,
+  behindThreshold: 10,
+};
+
+/** Latency above the target (seconds) before catch-up kicks in, so playback doesn't flap */
+const CATCH_UP_TOLERANCE = 1;
+
+const DEFAULT_RETRY: Required<RetryPolicy> = {
+  maxNetworkRetries: 2,
+  maxMediaRetries: 2,
+  baseDelay: 1000,
+  maxDelay: 8000,
+  jitter: 0.3,
+};
+
+/** Every PlayerEvents name, for modules that re-emit them (PlayerPool, <threespeak-player>) */
+export const PLAYER_EVENTS = Object.keys({
+  ready: true, play: true, pause: true, ended: true, timeupdate: true, error: true, fallback: true,
+  retry: true, resize: true, loading: true, buffered: true, pip: true, fullscreen: true,
+  qualitychange: true, visibility: true, ratechange: true, volumechange: true, loadstart: true,
+  abort: true, resume: true, audiotrackchange: true, viewrecorded: true, texttrackchange: true,
+  cuechange: true, live: true, behindlive: true,
+} satisfies Record<keyof PlayerEvents, true>) as (keyof PlayerEvents)[];
+
+/** HTMLMediaElement.audioTracks (native HLS only; not in lib.dom) */
+interface NativeAudioTrackList extends EventTarget {
+  readonly length: number;
+  [index: number]: { id: string; label: string; language: string; kind: string; enabled: boolean };
+}
+
+/** Marks <track> elements added by the player for sidecar subtitles */
+const SIDECAR_ATTR = 'data-3speak-sidecar';
+
 /**
  * 3Speak HLS Video Player.
  *
@@ -39,70 +112,66 @@ const DEFAULT_CONFIG: Required<PlayerConfig> = {
  * player.on('ready', ({ isVertical }) => console.log('vertical?', isVertical));
  * ```
  */
-export class Player {
+export class Player extends Emitter<PlayerEvents> {
   private config: Required<PlayerConfig>;
   private api: ThreeSpeakApi;
-  private platform = detectPlatform();
+  private platform: PlatformInfo;
   private video: HTMLVideoElement | null = null;
   private hls: Hls | null = null;
-  private listeners = new Map<string, Set<Function>>();
-  private fallbackIndex = 0;
-  private fallbacks: string[] = [];
+  /** Source chain in try order (primary first, health-ordered) */
+  private sources: string[] = [];
+  private sourceIndex = 0;
+  private _sourceCleanup: (() => void) | null = null;
+  private retryPolicy: Required<RetryPolicy> | null;
+  private qualityPolicy: Required<QualityPolicy>;
+  /** Variants of the master playlist on native HLS, sorted by bandwidth */
+  private nativeLevels: HlsVariant[] = [];
+  private nativeLevel = -1;
+  private livePolicy: Required<LivePolicy>;
+  private _live = false;
+  /** #EXT-X-TARGETDURATION of the live playlist */
+  private _targetDuration = 0;
+  private _behindLive = false;
+  private _catchingUp = false;
+  private retryCounts = { network: 0, media: 0 };
+  private _retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private thumbnails: ThumbnailTrack | null = null;
+  private _source: VideoSource | null = null;
+  /** Poster the player set on the element (cleared when a later source has none) */
+  private _posterUrl: string | null = null;
   private _ready = false;
   private _destroyed = false;
   private _audioOnly = false;
   private _currentRef: string | null = null;
   private _resumeSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private _resumeLookup: Promise<ResumeEntry | null> | null = null;
+  /** Controller for the load() in progress (cleared once it reaches loadSource) */
+  private _pendingLoad: { controller: AbortController; ref: string | null } | null = null;
   private _observer: IntersectionObserver | null = null;
+  /** Ref whose playback counts toward a view — set only once its source reaches the video */
+  private _viewRef: string | null = null;
+  private _watched = 0;
+  private _lastTime = 0;
+  private _viewRecorded = false;
+  private _textTrack: string | null = null;
+  private _cueCleanup: (() => void) | null = null;
   private cleanupFns: (() => void)[] = [];
 
   constructor(config?: PlayerConfig) {
+    super('[3Speak Player]');
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.api = new ThreeSpeakApi(this.config.apiBase, this.config.debug);
+    this.platform = { ...detectPlatform(), ...this.config.platform };
     this._audioOnly = this.config.audioOnly;
+    this.retryPolicy = this.config.retry === false ? null : { ...DEFAULT_RETRY, ...this.config.retry };
+    this.qualityPolicy = { ...DEFAULT_QUALITY, ...this.config.quality };
+    this.livePolicy = { ...DEFAULT_LIVE, ...this.config.live };
   }
 
   private log(...args: unknown[]) {
     if (this.config.debug) console.log('[3Speak Player]', ...args);
   }
 
-  // ─── Event Emitter ───
-
-  /**
-   * Subscribe to a player event.
-   * @returns Unsubscribe function
-   */
-  on<T extends keyof PlayerEvents>(event: T, handler: EventHandler<T>): EventUnsubscribe {
-    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
-    this.listeners.get(event)!.add(handler);
-    return () => this.off(event, handler);
-  }
-
-  /** Unsubscribe from a player event. */
-  off<T extends keyof PlayerEvents>(event: T, handler: EventHandler<T>): void {
-    this.listeners.get(event)?.delete(handler);
-  }
-
-  /** Subscribe to a player event, auto-unsubscribe after first call. */
-  once<T extends keyof PlayerEvents>(event: T, handler: EventHandler<T>): EventUnsubscribe {
-    const wrapped = ((...args: unknown[]) => {
-      unsub();
-      (handler as Function)(...args);
-    }) as EventHandler<T>;
-    const unsub = this.on(event, wrapped);
-    return unsub;
-  }
-
-  private emit<T extends keyof PlayerEvents>(event: T, ...args: Parameters<PlayerEvents[T]>): void {
-    this.listeners.get(event)?.forEach((handler) => {
-      try {
-        (handler as Function)(...args);
-      } catch (e) {
-        console.error(`[3Speak Player] Error in ${event} handler:`, e);
-      }
-    });
-  }
-
   // ─── Lifecycle ───
 
   /**
@@ -110,7 +179,7 @@ export class Player {
    * Sets required attributes (playsinline, etc.) automatically.
    */
   attach(element: HTMLVideoElement): this {
-    if (this._destroyed) throw new Error('Player is destroyed');
+    if (this._destroyed) throw new PlayerError(PlayerErrorCode.DESTROYED, 'Player is destroyed');
     if (this.video === element) return this;
 
     // Clean up previous attachment
@@ -127,6 +196,13 @@ export class Player {
     // Bind events
     this.bindVideoEvents(element);
 
+    // Re-apply the size cap when the element is resized (e.g. entering fullscreen)
+    if (typeof ResizeObserver !== 'undefined') {
+      const resizeObserver = new ResizeObserver(() => this.applyQualityPolicy());
+      resizeObserver.observe(element);
+      this.cleanupFns.push(() => resizeObserver.disconnect());
+    }
+
     // Auto-pause on scroll out
     if (this.config.autopause) {
       this.setupAutopause(element);
@@ -140,6 +216,7 @@ export class Player {
    * Detach from the current video element and clean up HLS.
    */
   detach(): this {
+    this.abortLoad('detached');
     this.destroyHls();
     this.cleanupFns.forEach((fn) => fn());
     this.cleanupFns = [];
@@ -151,57 +228,148 @@ export class Player {
     }
 
     this.destroyAutopause();
+    this.removeSidecarTracks();
     if (this._resumeSaveTimer) {
       clearTimeout(this._resumeSaveTimer);
       this._resumeSaveTimer = null;
     }
 
+    this._sourceCleanup?.();
+    this._sourceCleanup = null;
+    this.cancelRetry();
+
     this.video = null;
     this._ready = false;
-    this.fallbackIndex = 0;
-    this.fallbacks = [];
+    this.sourceIndex = 0;
+    this.sources = [];
+    this.thumbnails = null;
+    this._source = null;
+    this._viewRef = null;
+    this._posterUrl = null;
+    this.nativeLevels = [];
+    this.nativeLevel = -1;
+    this.resetLive();
     return this;
   }
 
   /**
    * Load a video by author/permlink (fetches HLS URL from 3Speak API).
+   * Cancels any earlier load() that hasn't started playback yet.
    * @param ref - Either "author/permlink" or "@author/permlink"
+   * @throws PlayerError — ABORTED if superseded or `options.signal` aborts
    */
-  async load(ref: string): Promise<this>;
+  async load(ref: string, options?: LoadOptions): Promise<this>;
   /**
    * Load a video from a direct VideoSource.
    */
-  async load(source: VideoSource): Promise<this>;
-  async load(refOrSource: string | VideoSource): Promise<this> {
-    if (!this.video) throw new Error('No video element attached. Call attach() first.');
-
-    let source: VideoSource;
+  async load(source: VideoSource, options?: LoadOptions): Promise<this>;
+  /**
+   * Load a ref or a VideoSource, for callers holding either (queues, framework bindings).
+   */
+  async load(refOrSource: string | VideoSource, options?: LoadOptions): Promise<this>;
+  async load(refOrSource: string | VideoSource, options: LoadOptions = {}): Promise<this> {
+    if (!this.video) {
+      throw new PlayerError(PlayerErrorCode.NOT_ATTACHED, 'No video element attached. Call attach() first.');
+    }
 
+    let ref: string | null = null;
+    let author = '';
+    let permlink = '';
     if (typeof refOrSource === 'string') {
-      const clean = refOrSource.replace(/^@/, '');
-      const [author, permlink] = clean.split('/');
-      if (!author || !permlink) throw new Error(`Invalid video ref: "${refOrSource}". Use "author/permlink".`);
-
-      this._currentRef = clean;
-      this.log('Loading from API:', author, permlink);
-      this.emit('loading', true as any);
-      source = await this.api.fetchSource(author, permlink);
-    } else {
-      this._currentRef = null;
-      source = refOrSource;
+      ref = refOrSource.replace(/^@/, '');
+      [author, permlink] = ref.split('/');
+      if (!author || !permlink) {
+        throw new PlayerError(PlayerErrorCode.INVALID_REF, `Invalid video ref: "${refOrSource}". Use "author/permlink".`);
+      }
     }
 
-    this._ready = false;
-    this.fallbackIndex = 0;
-    this.fallbacks = source.fallbacks || [];
+    // Only the newest load may reach loadSource()
+    this.abortLoad('superseded');
+    if (options.signal?.aborted) throw abortError('Load aborted', ref || undefined);
+    const pending = { controller: new AbortController(), ref };
+    this._pendingLoad = pending;
+    // Whatever is still playing no longer counts toward a view for any ref
+    this._viewRef = null;
+    this._watched = 0;
+    this._viewRecorded = false;
+    const signal = pending.controller.signal;
+    const onExternalAbort = () => this.abortLoad('signal', pending);
+    options.signal?.addEventListener('abort', onExternalAbort, { once: true });
 
-    if (this.config.poster && source.poster && this.video) {
-      this.video.poster = source.poster;
-    }
+    try {
+      let source: VideoSource;
+
+      if (ref) {
+        this._currentRef = ref;
+        this._source = null;
+        this.emit('loadstart', { ref });
+        // Start the (async) resume lookup now so it's settled by loadedmetadata
+        this._resumeLookup = this.config.resume
+          ? this.config.resumeStore.get(ref).catch(() => null)
+          : null;
+        this.log('Loading from API:', author, permlink);
+        this.emit('loading', true as any);
+        try {
+          source = await this.api.fetchSource(author, permlink, signal);
+        } catch (e) {
+          if (signal.aborted) throw abortError('Load aborted', ref);
+          const error = e instanceof PlayerError
+            ? e
+            : new PlayerError(PlayerErrorCode.UNKNOWN, (e as Error)?.message || String(e), { cause: e });
+          this.emit('loading', false as any);
+          this.emit('error', error);
+          throw error;
+        }
+      } else {
+        this._currentRef = null;
+        this._resumeLookup = null;
+        this._source = null;
+        this.emit('loadstart', { ref: null });
+        source = refOrSource as VideoSource;
+      }
 
-    this.loadSource(source.url);
-    this.emit('loading', true as any);
-    return this;
+      // Tripped hosts move to the back of the chain; optionally start with the fastest
+      let sources = this.config.cdn.order([source.url, ...(source.fallbacks || [])]);
+      if (this.config.raceSources && sources.length > 1) {
+        const fastest = await this.config.cdn.race(sources, signal);
+        if (fastest) sources = [fastest, ...sources.filter((url) => url !== fastest)];
+      }
+      if (signal.aborted) throw abortError('Load aborted', ref || source.url);
+
+      this._pendingLoad = null;
+      this._source = source;
+      this._viewRef = ref;
+      this._watched = 0;
+      this._lastTime = 0;
+      this._viewRecorded = false;
+
+      this._ready = false;
+      this.sourceIndex = 0;
+      this.sources = sources;
+      this.nativeLevels = [];
+      this.nativeLevel = -1;
+      this.resetLive();
+      this.thumbnails = new ThumbnailTrack(source.thumbnails || source.url, this.config.debug);
+      this.addSidecarTracks(source.subtitles || []);
+
+      if (this.config.poster && this.video) {
+        if (source.poster) {
+          this.video.poster = source.poster;
+          this._posterUrl = source.poster;
+        } else if (this._posterUrl && this.video.getAttribute('poster') === this._posterUrl) {
+          // Don't leave the previous video's poster on a reused element
+          this.video.removeAttribute('poster');
+          this._posterUrl = null;
+        }
+      }
+
+      this.loadSource(this.sources[0]);
+      this.emit('loading', true as any);
+      return this;
+    } finally {
+      options.signal?.removeEventListener('abort', onExternalAbort);
+      if (this._pendingLoad === pending) this._pendingLoad = null;
+    }
   }
 
   // ─── Playback Controls ───
@@ -225,8 +393,9 @@ export class Player {
     }
   }
 
+  /** Seek to `time` seconds. Non-finite times (e.g. a live stream's Infinity duration) are ignored. */
   seek(time: number): void {
-    if (this.video) this.video.currentTime = time;
+    if (this.video && isFinite(time)) this.video.currentTime = time;
   }
 
   /** Set muted state */
@@ -245,11 +414,25 @@ export class Player {
     if (this.video) this.video.loop = loop;
   }
 
-  /** Set playback rate */
+  /** Set playback rate (stops any live catch-up in progress) */
   setPlaybackRate(rate: number): void {
+    this._catchingUp = false;
     if (this.video) this.video.playbackRate = rate;
   }
 
+  /**
+   * Jump to the live edge, minus the target latency, and resume playback.
+   * No-op for VOD.
+   */
+  seekToLive(): void {
+    const video = this.video;
+    const dvr = this.dvrWindow();
+    if (!video || !this._live || !dvr) return;
+    const position = this.hls?.liveSyncPosition ?? dvr.end - this.targetLatency();
+    video.currentTime = Math.max(dvr.start, Math.min(position, dvr.end));
+    if (video.paused) video.play().catch(() => {});
+  }
+
   /** Toggle Picture-in-Picture mode */
   async togglePip(): Promise<void> {
     if (!this.video) return;
@@ -264,51 +447,212 @@ export class Player {
     }
   }
 
-  /** Toggle fullscreen mode */
-  async toggleFullscreen(): Promise<void> {
+  /**
+   * Toggle fullscreen mode.
+   * @param target - Element to make fullscreen instead of the <video> (e.g. a wrapper with custom controls)
+   */
+  async toggleFullscreen(target?: HTMLElement): Promise<void> {
     if (!this.video) return;
     try {
       if (document.fullscreenElement) {
         await document.exitFullscreen();
       } else {
-        await this.video.requestFullscreen();
+        await (target || this.video).requestFullscreen();
       }
     } catch (e) {
       this.log('Fullscreen toggle failed:', e);
     }
   }
 
-  /** Get available quality levels (hls.js only, empty for native HLS) */
+  /**
+   * Get available quality levels.
+   * `allowed` marks the levels adaptive bitrate may pick under the quality policy.
+   * On native HLS these are the master playlist's variants, available shortly after load.
+   */
   getQualities(): QualityLevel[] {
-    if (!this.hls) return [];
-    return this.hls.levels.map((level, index) => ({
-      index,
-      height: level.height,
-      width: level.width,
-      bitrate: level.bitrate,
-    }));
+    const max = this.maxAllowedLevel();
+    return this.levelInfo().map((level, index) => ({ index, ...level, allowed: index <= max }));
   }
 
-  /** Set quality level (-1 for auto, hls.js only) */
+  /**
+   * Set quality level (-1 for auto).
+   * The choice is remembered (by height) in the policy's QualityPreference and applied
+   * to later loads and other players, picking the nearest height when it doesn't exist.
+   * On native HLS the video switches to the variant playlist, keeping its position.
+   */
   setQuality(index: number): void {
-    if (!this.hls) return;
     this.log('setQuality:', index);
+    const level = this.levelInfo()[index];
+    this.qualityPolicy.preference.set(level ? level.height : null);
+    if (!this.hls) {
+      this.switchNativeLevel(level ? index : -1);
+      return;
+    }
     this.hls.currentLevel = index;
     // Also set nextLevel so the switch persists across segment boundaries
     this.hls.nextLevel = index;
   }
 
-  /** Get current quality level index (-1 = auto, hls.js only) */
+  /** Get current quality level index (-1 = auto) */
   getCurrentQuality(): number {
-    return this.hls?.currentLevel ?? -1;
+    return this.hls ? this.hls.currentLevel : this.nativeLevel;
+  }
+
+  /** Current quality policy */
+  getQualityPolicy(): Required<QualityPolicy> {
+    return { ...this.qualityPolicy };
+  }
+
+  /** Change the quality policy (e.g. toggle data saver); applies to the current video right away */
+  setQualityPolicy(changes: QualityPolicy): void {
+    this.qualityPolicy = { ...this.qualityPolicy, ...changes };
+    this.applyQualityPolicy();
+  }
+
+  /**
+   * Get the seek-preview thumbnail at a given time.
+   * The thumbnail track is fetched lazily on first call; until it is available
+   * (or if the video has none) the poster is returned as a whole-image thumbnail.
+   */
+  getThumbnailAt(time: number): Thumbnail | null {
+    const thumb = this.thumbnails?.getAt(time);
+    if (thumb) return thumb;
+    const poster = this.video?.poster;
+    return poster ? { url: poster, x: 0, y: 0, w: 0, h: 0 } : null;
+  }
+
+  /**
+   * Fetch the thumbnail track ahead of time (e.g. when the seek bar is shown).
+   * @returns true if sprite thumbnails are available for the current video
+   */
+  loadThumbnails(): Promise<boolean> {
+    return this.thumbnails?.load() ?? Promise.resolve(false);
+  }
+
+  /** Get available audio tracks (hls.js audio renditions or native audioTracks) */
+  getAudioTracks(): AudioTrackInfo[] {
+    if (this.hls) {
+      return this.hls.audioTracks.map((t, index) => ({
+        index,
+        label: t.name || t.lang || `Track ${index + 1}`,
+        language: t.lang || '',
+        default: t.default,
+      }));
+    }
+
+    const native = this.nativeAudioTracks();
+    if (!native) return [];
+    const tracks: AudioTrackInfo[] = [];
+    for (let index = 0; index < native.length; index++) {
+      const t = native[index];
+      tracks.push({
+        index,
+        label: t.label || t.language || `Track ${index + 1}`,
+        language: t.language || '',
+        default: t.kind === 'main',
+      });
+    }
+    return tracks;
+  }
+
+  /** Switch to an audio track by index (from getAudioTracks()) */
+  setAudioTrack(index: number): void {
+    this.log('setAudioTrack:', index);
+    if (this.hls) {
+      // AUDIO_TRACK_SWITCHED emits audiotrackchange
+      this.hls.audioTrack = index;
+      return;
+    }
+
+    const native = this.nativeAudioTracks();
+    if (!native || index < 0 || index >= native.length) return;
+    // Native tracks: enabling one disables the others ('change' emits audiotrackchange)
+    for (let i = 0; i < native.length; i++) {
+      native[i].enabled = i === index;
+    }
+  }
+
+  /** Get current audio track index (-1 if none/unknown) */
+  getCurrentAudioTrack(): number {
+    if (this.hls) return this.hls.audioTrack;
+    const native = this.nativeAudioTracks();
+    if (!native) return -1;
+    for (let i = 0; i < native.length; i++) {
+      if (native[i].enabled) return i;
+    }
+    return -1;
   }
 
   /**
-   * Get thumbnail at a given time. Currently returns the poster image.
-   * Reserved for future sprite sheet support.
+   * Get available subtitle/caption tracks.
+   * Includes hls.js subtitle renditions, sidecar .vtt files from the VideoSource,
+   * and (on native HLS) the renditions Safari exposes on the element.
    */
-  getThumbnailAt(_time: number): string | null {
-    return this.video?.poster || null;
+  getTextTracks(): TextTrackInfo[] {
+    const v = this.video;
+    if (!v) return [];
+    const tracks: TextTrackInfo[] = [];
+
+    if (this.hls) {
+      this.hls.subtitleTracks.forEach((t, i) => {
+        tracks.push({
+          id: `hls:${i}`,
+          label: t.name || t.lang || `Track ${i + 1}`,
+          language: t.lang || '',
+          kind: 'subtitles',
+          source: 'hls',
+        });
+      });
+    }
+
+    Array.from(v.textTracks).forEach((t, i) => {
+      if (t.kind !== 'subtitles' && t.kind !== 'captions') return;
+      const sidecar = t.id.startsWith('sidecar:');
+      // hls.js renders its renditions into element tracks too — those are listed above
+      if (this.hls && !sidecar) return;
+      tracks.push({
+        id: t.id || `native:${i}`,
+        label: t.label || t.language || `Track ${i + 1}`,
+        language: t.language,
+        kind: t.kind,
+        source: sidecar ? 'sidecar' : 'native',
+      });
+    });
+
+    return tracks;
+  }
+
+  /** Show a text track by id (from getTextTracks()), or null to turn captions off */
+  setTextTrack(id: string | null): void {
+    const v = this.video;
+    if (!v) return;
+    if (id && !this.getTextTracks().some((t) => t.id === id)) {
+      this.log('Unknown text track:', id);
+      return;
+    }
+    this.log('setTextTrack:', id);
+
+    // Update state first so the hls.js switch event below is recognised as ours
+    this._textTrack = id;
+
+    if (this.hls) {
+      const hlsIndex = id?.startsWith('hls:') ? parseInt(id.slice(4), 10) : -1;
+      this.hls.subtitleTrack = hlsIndex;
+      if (hlsIndex >= 0) this.hls.subtitleDisplay = true;
+    }
+
+    Array.from(v.textTracks).forEach((t, i) => {
+      if (this.hls && !t.id.startsWith('sidecar:')) return;
+      t.mode = (t.id || `native:${i}`) === id ? 'showing' : 'disabled';
+    });
+
+    this.emit('texttrackchange', id);
+    this.bindActiveCues();
+  }
+
+  /** Get the selected text track id (null = captions off) */
+  getCurrentTextTrack(): string | null {
+    return this._textTrack;
   }
 
   /** Set audio-only mode (hides video, keeps audio playing) */
@@ -335,10 +679,10 @@ export class Player {
   }
 
   /** Clear saved resume position for a video ref. Clears current video if no ref given. */
-  clearResumePosition(ref?: string): void {
+  async clearResumePosition(ref?: string): Promise<void> {
     const key = ref || this._currentRef;
     if (key) {
-      try { localStorage.removeItem(`3speak_pos_${key}`); } catch {}
+      await this.config.resumeStore.delete(key).catch(() => {});
       this.log('Cleared resume position for', key);
     }
   }
@@ -348,10 +692,7 @@ export class Player {
   /** Get current player state snapshot */
   getState(): PlayerState {
     const v = this.video;
-    let buffered = 0;
-    if (v && v.buffered.length > 0 && v.duration > 0) {
-      buffered = v.buffered.end(v.buffered.length - 1) / v.duration;
-    }
+    const dvr = this.dvrWindow();
     return {
       currentTime: v?.currentTime || 0,
       duration: v?.duration || 0,
@@ -363,14 +704,24 @@ export class Player {
       isVertical: v ? (v.videoHeight > v.videoWidth ? true : v.videoWidth > 0 ? false : null) : null,
       videoWidth: v?.videoWidth || 0,
       videoHeight: v?.videoHeight || 0,
-      buffered,
-      pip: !!document.pictureInPictureElement && document.pictureInPictureElement === v,
-      fullscreen: !!document.fullscreenElement && document.fullscreenElement === v,
+      buffered: v ? this.bufferedRatio(v) : 0,
+      pip: typeof document !== 'undefined' && !!v && document.pictureInPictureElement === v,
+      fullscreen: this.isFullscreen(),
       audioOnly: this._audioOnly,
       playbackRate: v?.playbackRate ?? 1,
+      textTrack: this._textTrack,
+      isLive: this._live,
+      liveEdge: dvr ? dvr.end : null,
+      latency: dvr && v ? Math.max(0, dvr.end - v.currentTime) : null,
+      dvrWindow: dvr,
     };
   }
 
+  /** Whether the current source is a live stream (known once its playlist has loaded) */
+  get isLive(): boolean {
+    return this._live;
+  }
+
   /** Whether the player has loaded metadata and is ready to play */
   get ready(): boolean {
     return this._ready;
@@ -391,6 +742,35 @@ export class Player {
     return this.api;
   }
 
+  /** The source currently loaded (null before load() resolves its source) */
+  get currentSource(): VideoSource | null {
+    return this._source;
+  }
+
+  /** The "author/permlink" ref currently loaded (null for direct sources) */
+  get currentRef(): string | null {
+    return this._currentRef;
+  }
+
+  /** URL currently being played — the primary URL or the active fallback */
+  get currentUrl(): string | null {
+    if (!this._source) return null;
+    return this.sources[this.sourceIndex] ?? null;
+  }
+
+  /**
+   * The hls.js instance for the current source (null on native HLS).
+   * Advanced use only — it is replaced on every load.
+   */
+  get hlsInstance(): Hls | null {
+    return this.hls;
+  }
+
+  /** Playback engine this player loads sources with, per its (possibly overridden) platform */
+  get engine(): 'hls.js' | 'native' {
+    return this.platform.supportsHlsJs ? 'hls.js' : 'native';
+  }
+
   // ─── Cleanup ───
 
   /**
@@ -399,22 +779,46 @@ export class Player {
    */
   destroy(): void {
     this.detach();
-    this.listeners.clear();
+    this.removeAllListeners();
     this._destroyed = true;
     this.log('Destroyed');
   }
 
   // ─── Private ───
 
+  /** Whether the video, or an element wrapping it (e.g. a controls container), is fullscreen */
+  private isFullscreen(): boolean {
+    const el = typeof document !== 'undefined' ? document.fullscreenElement : null;
+    return !!el && !!this.video && (el === this.video || el.contains(this.video));
+  }
+
+  /** Cancel the pending load (or only `which`, if it is still the pending one) and emit `abort` */
+  private abortLoad(reason: LoadAbortReason, which = this._pendingLoad): void {
+    if (!which || which !== this._pendingLoad) return;
+    this._pendingLoad = null;
+    which.controller.abort();
+    this.log('Load aborted:', which.ref || '(direct source)', reason);
+    // A newer load() takes over the loading state; otherwise nothing is loading now
+    if (reason !== 'superseded') this.emit('loading', false as any);
+    this.emit('abort', { ref: which.ref, reason });
+  }
+
   private loadSource(hlsUrl: string): void {
     if (!this.video) return;
 
-    // Clean up any existing HLS instance
-    this.destroyHls();
+    // Clean up any existing HLS instance, unless it is being reused
+    const reuse = this.config.reuseHls && this.hls?.media === this.video ? this.hls : null;
+    if (!reuse) this.destroyHls();
+    this.resetRetries();
+    this.watchSourceLoad(hlsUrl);
 
     const platform = this.platform;
 
-    if (platform.supportsHlsJs) {
+    if (reuse) {
+      // hls.js detaches and re-attaches the media itself when the source changes
+      this.log('Reusing hls.js instance');
+      reuse.loadSource(hlsUrl);
+    } else if (platform.supportsHlsJs) {
       // Prefer hls.js when MSE is available (Chrome, Firefox, Edge, modern Safari/iOS).
       // This avoids relying on UA detection which can be spoofed by browser
       // device-emulation tools (Firefox responsive-design-mode, Chrome DevTools).
@@ -426,6 +830,7 @@ export class Player {
         maxBufferLength: 15,
         startLevel: 0,
         startFragPrefetch: true,
+        ...(this.livePolicy.targetLatency !== null ? { liveSyncDuration: this.livePolicy.targetLatency } : {}),
         ...this.config.hlsConfig,
       });
 
@@ -441,10 +846,20 @@ export class Player {
             height: level.height,
             width: level.width,
             bitrate: level.bitrate,
+            allowed: data.level <= this.maxAllowedLevel(),
           });
         }
       });
 
+      hls.on(Hls.Events.MANIFEST_PARSED, () => {
+        this.applyQualityPolicy(true);
+      });
+
+      // Live playlists have no #EXT-X-ENDLIST; hls.js reloads them, so this fires repeatedly
+      hls.on(Hls.Events.LEVEL_LOADED, (_event, data) => {
+        if (data.details.live) this.markLive(data.details.targetduration);
+      });
+
       hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
         const level = hls.levels[data.level];
         if (level) {
@@ -452,23 +867,59 @@ export class Player {
         }
       });
 
+      hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, () => {
+        this.applyPreferredAudioLanguage();
+      });
+
+      hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, (_event, data) => {
+        const track = this.getAudioTracks()[data.id];
+        if (track) {
+          this.log('Audio track switched to:', data.id, track.language);
+          this.emit('audiotrackchange', track);
+        }
+      });
+
+      hls.on(Hls.Events.SUBTITLE_TRACK_SWITCH, (_event, data) => {
+        const id = data.id >= 0 ? `hls:${data.id}` : null;
+        if (id === this._textTrack) return;
+        // Switching to a sidecar track turns hls.js subtitles off — not a change
+        if (id === null && this._textTrack?.startsWith('sidecar:')) return;
+        this._textTrack = id;
+        this.emit('texttrackchange', id);
+        this.bindActiveCues();
+      });
+
+      // A fragment arriving means the network recovered — allow fresh retries later
+      hls.on(Hls.Events.FRAG_LOADED, () => {
+        this.retryCounts.network = 0;
+      });
+
       hls.on(Hls.Events.ERROR, (_event, data) => {
         if (data.fatal) {
           this.log('Fatal HLS error:', data.type, data.details);
-          if (this.tryFallback(hls)) return;
-
-          this.emit('error', {
-            message: `HLS fatal error: ${data.details}`,
-            code: data.response?.code,
-            fatal: true,
-          });
+          if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+            const manifestFailed =
+              data.details === Hls.ErrorDetails.MANIFEST_LOAD_ERROR ||
+              data.details === Hls.ErrorDetails.MANIFEST_LOAD_TIMEOUT;
+            const url = this.currentUrl;
+            const recover = () => (manifestFailed && url ? hls.loadSource(url) : hls.startLoad());
+            if (this.scheduleRetry('network', data.details, recover)) return;
+          } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+            // First try a plain recovery; if that already failed, swap the audio codec too
+            const recover = () => {
+              if (this.retryCounts.media > 1) hls.swapAudioCodec();
+              hls.recoverMediaError();
+            };
+            if (this.scheduleRetry('media', data.details, recover)) return;
+          }
+          const error = this.hlsError(data, true);
+          if (this.tryFallback(data.details, hls)) return;
+
+          this.emit('error', this.exhausted(error));
           hls.destroy();
           this.hls = null;
         } else {
-          this.emit('error', {
-            message: `HLS error: ${data.details}`,
-            fatal: false,
-          });
+          this.emit('error', this.hlsError(data, false));
         }
       });
 
@@ -477,29 +928,149 @@ export class Player {
       // Fallback: native HLS (old iOS/Safari without MSE)
       this.log('Using native HLS');
       this.video.src = hlsUrl;
+      this.loadNativePlaylists(hlsUrl);
     } else {
-      this.emit('error', {
-        message: 'No HLS support detected. Cannot play this video.',
-        fatal: true,
-      });
+      this.emit('error', new PlayerError(
+        PlayerErrorCode.HLS_UNSUPPORTED,
+        'No HLS support detected. Cannot play this video.',
+        { url: hlsUrl },
+      ));
     }
   }
 
-  private tryFallback(hls?: Hls): boolean {
-    if (this.fallbackIndex < this.fallbacks.length) {
-      const fallbackUrl = this.fallbacks[this.fallbackIndex];
-      this.fallbackIndex++;
-      this.log(`Trying fallback ${this.fallbackIndex}:`, fallbackUrl.substring(0, 80));
-      this.emit('fallback', { url: fallbackUrl, index: this.fallbackIndex });
+  /** Map an hls.js error to a PlayerError for the current source */
+  private hlsError(data: ErrorData, fatal: boolean): PlayerError {
+    let code: PlayerErrorCode = PlayerErrorCode.UNKNOWN;
+    if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+      code = data.details.startsWith('manifest')
+        ? PlayerErrorCode.MANIFEST_LOAD_FAILED
+        : PlayerErrorCode.NETWORK_ERROR;
+    } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+      code = PlayerErrorCode.MEDIA_DECODE;
+    }
+    return new PlayerError(code, `HLS ${fatal ? 'fatal error' : 'error'}: ${data.details}`, {
+      fatal,
+      cause: data,
+      url: this.currentUrl ?? undefined,
+      fallbackIndex: this.sourceIndex,
+      status: data.response?.code,
+    });
+  }
 
-      if (hls) {
-        hls.loadSource(fallbackUrl);
-      } else if (this.video) {
-        this.video.src = fallbackUrl;
-      }
-      return true;
+  /** The final error once no fallback is left: ALL_SOURCES_FAILED if there was a chain to walk */
+  private exhausted(last: PlayerError): PlayerError {
+    if (this.sources.length <= 1) return last;
+    return new PlayerError(
+      PlayerErrorCode.ALL_SOURCES_FAILED,
+      `All ${this.sources.length} sources failed (last: ${last.message})`,
+      { cause: last, url: last.url, fallbackIndex: this.sourceIndex, status: last.status },
+    );
+  }
+
+  /**
+   * Switch to the next source in the chain after a failure.
+   * Hosts with an open circuit are pushed behind healthy ones, and the playback
+   * position and paused state are restored once the new source has loaded.
+   */
+  private tryFallback(reason: string, hls?: Hls): boolean {
+    const cdn = this.config.cdn;
+    const failedUrl = this.sources[this.sourceIndex];
+    if (failedUrl) cdn.recordFailure(failedUrl, reason);
+
+    const remaining = this.sources.slice(this.sourceIndex + 1);
+    if (remaining.length === 0) return false;
+    this.resetRetries();
+    this.sources = [...this.sources.slice(0, this.sourceIndex + 1), ...cdn.order(remaining)];
+    this.sourceIndex++;
+    const fallbackUrl = this.sources[this.sourceIndex];
+
+    const video = this.video;
+    const resumeAt = this._ready && video ? video.currentTime : 0;
+    const resumePlaying = !!video && !video.paused;
+
+    this.log(`Trying fallback ${this.sourceIndex} (${reason}):`, fallbackUrl.substring(0, 80));
+    this.emit('fallback', {
+      url: fallbackUrl,
+      index: this.sourceIndex,
+      reason,
+      health: failedUrl ? cdn.getHealth(failedUrl) : cdn.getHealth(fallbackUrl),
+    });
+
+    this.watchSourceLoad(fallbackUrl, resumeAt, resumePlaying);
+    if (hls) {
+      hls.loadSource(fallbackUrl);
+    } else if (video) {
+      this.nativeLevels = [];
+      this.nativeLevel = -1;
+      video.src = fallbackUrl;
+      this.loadNativePlaylists(fallbackUrl);
+    }
+    return true;
+  }
+
+  /**
+   * Once `url` has loaded metadata: report success to the CDN tracker and, after a
+   * mid-playback failover, restore the position and playing state.
+   */
+  private watchSourceLoad(url: string, resumeAt = 0, resumePlaying = false): void {
+    this._sourceCleanup?.();
+    this._sourceCleanup = null;
+    const video = this.video;
+    if (!video) return;
+
+    const started = performance.now();
+    const onLoaded = () => {
+      this._sourceCleanup?.();
+      this._sourceCleanup = null;
+      this.config.cdn.recordSuccess(url, performance.now() - started);
+      if (resumeAt > 0) video.currentTime = resumeAt;
+      if (resumePlaying) video.play().catch(() => {});
+    };
+    video.addEventListener('loadedmetadata', onLoaded);
+    this._sourceCleanup = () => video.removeEventListener('loadedmetadata', onLoaded);
+  }
+
+  /**
+   * Schedule a recovery attempt on the current source if the retry budget for
+   * this kind of error allows it. Network retries back off exponentially with
+   * jitter; media recoveries run right away.
+   * @returns false when retries are disabled or exhausted (caller should fall back)
+   */
+  private scheduleRetry(kind: 'network' | 'media', reason: string, recover: () => void): boolean {
+    const policy = this.retryPolicy;
+    if (!policy) return false;
+    const maxAttempts = kind === 'network' ? policy.maxNetworkRetries : policy.maxMediaRetries;
+    if (this.retryCounts[kind] >= maxAttempts) return false;
+
+    const attempt = ++this.retryCounts[kind];
+    let delay = 0;
+    if (kind === 'network') {
+      const base = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+      delay = Math.round(base * (1 + (Math.random() * 2 - 1) * policy.jitter));
+    }
+
+    this.log(`Retry ${kind} ${attempt}/${maxAttempts} in ${delay}ms (${reason})`);
+    this.emit('retry', { kind, attempt, maxAttempts, delay, reason });
+
+    this.cancelRetry();
+    this._retryTimer = setTimeout(() => {
+      this._retryTimer = null;
+      recover();
+    }, delay);
+    return true;
+  }
+
+  private cancelRetry(): void {
+    if (this._retryTimer) {
+      clearTimeout(this._retryTimer);
+      this._retryTimer = null;
     }
-    return false;
+  }
+
+  /** New source — fresh retry budget, and drop any retry aimed at the old one */
+  private resetRetries(): void {
+    this.cancelRetry();
+    this.retryCounts = { network: 0, media: 0 };
   }
 
   private destroyHls(): void {
@@ -509,6 +1080,271 @@ export class Player {
     }
   }
 
+  private nativeAudioTracks(): NativeAudioTrackList | null {
+    return ((this.video as any)?.audioTracks as NativeAudioTrackList | undefined) ?? null;
+  }
+
+  /** Select the track matching config.preferredAudioLanguage (exact, then primary subtag) */
+  private applyPreferredAudioLanguage(): void {
+    const preferred = this.config.preferredAudioLanguage.toLowerCase();
+    if (!preferred) return;
+
+    const tracks = this.getAudioTracks();
+    const primary = preferred.split('-')[0];
+    const match =
+      tracks.find((t) => t.language.toLowerCase() === preferred) ||
+      tracks.find((t) => t.language.toLowerCase().split('-')[0] === primary);
+
+    if (match && match.index !== this.getCurrentAudioTrack()) {
+      this.log('Selecting preferred audio language:', match.language);
+      this.setAudioTrack(match.index);
+    }
+  }
+
+  private addSidecarTracks(sources: TextTrackSource[]): void {
+    const video = this.video;
+    if (!video) return;
+
+    this.removeSidecarTracks();
+    if (sources.length === 0) return;
+
+    // Cross-origin .vtt files only load when the element opts into CORS
+    if (!video.hasAttribute('crossorigin')) video.crossOrigin = 'anonymous';
+
+    sources.forEach((src, i) => {
+      const el = document.createElement('track');
+      el.id = `sidecar:${i}`;
+      el.kind = src.kind || 'subtitles';
+      el.src = src.url;
+      el.srclang = src.lang;
+      el.label = src.label || src.lang;
+      el.setAttribute(SIDECAR_ATTR, '');
+      video.appendChild(el);
+
+      if (src.default && !this._textTrack) {
+        el.track.mode = 'showing';
+        this._textTrack = el.id;
+        this.emit('texttrackchange', el.id);
+      }
+    });
+    this.bindActiveCues();
+  }
+
+  /** Remove the previous source's tracks; the selection goes with them */
+  private removeSidecarTracks(): void {
+    this._cueCleanup?.();
+    this._cueCleanup = null;
+    this.video?.querySelectorAll(`track[${SIDECAR_ATTR}]`).forEach((el) => el.remove());
+    if (this._textTrack === null) return;
+    this._textTrack = null;
+    this.emit('texttrackchange', null);
+  }
+
+  /** Forward cuechange from whichever element track is currently showing */
+  private bindActiveCues(): void {
+    this._cueCleanup?.();
+    this._cueCleanup = null;
+
+    const v = this.video;
+    if (!v || !this._textTrack) return;
+    const track = Array.from(v.textTracks).find((t) => t.mode === 'showing');
+    if (!track) return;
+
+    const onCueChange = () => {
+      if (!this._textTrack) return;
+      const cues = Array.from(track.activeCues || []).map((cue) => ({
+        start: cue.startTime,
+        end: cue.endTime,
+        text: (cue as VTTCue).text ?? '',
+      }));
+      this.emit('cuechange', { trackId: this._textTrack, cues });
+    };
+    track.addEventListener('cuechange', onCueChange);
+    this._cueCleanup = () => track.removeEventListener('cuechange', onCueChange);
+  }
+
+  /**
+   * Fetch the playlists behind a native-HLS source: the master's variants are offered
+   * as quality levels (switching to the remembered manual choice), and the lowest
+   * variant's media playlist tells whether the stream is live.
+   */
+  private async loadNativePlaylists(masterUrl: string): Promise<void> {
+    const video = this.video;
+    let variants: HlsVariant[] = [];
+    let media: HlsMediaPlaylist;
+    try {
+      const playlist = await fetchPlaylist(masterUrl);
+      if (playlist.type === 'master') {
+        variants = [...playlist.variants].sort((a, b) => a.bandwidth - b.bandwidth);
+        if (variants.length === 0) return;
+        const variant = await fetchPlaylist(variants[0].uri);
+        if (variant.type !== 'media') return;
+        media = variant;
+      } else {
+        media = playlist;
+      }
+    } catch (e) {
+      this.log('Playlist fetch failed:', e);
+      return;
+    }
+    // Superseded by another load, a fallback or detach()
+    if (this.video !== video || this.currentUrl !== masterUrl) return;
+
+    if (!media.endList) this.markLive(media.targetDuration);
+    if (variants.length === 0) return;
+    this.nativeLevels = variants;
+    this.nativeLevel = -1;
+    this.log('Native quality levels:', variants.map((v) => `${v.height}p`).join(', '));
+
+    const preferred = this.qualityPolicy.preference.height;
+    if (preferred !== null && variants.length > 1) {
+      const index = nearestLevel(this.levelInfo(), preferred);
+      this.log('Preferred quality:', `${preferred}p`, '→ level', index);
+      this.switchNativeLevel(index);
+    }
+  }
+
+  /** Point the native-HLS video at a variant playlist (-1 = the master, i.e. auto) */
+  private switchNativeLevel(index: number): void {
+    const video = this.video;
+    const masterUrl = this.currentUrl;
+    if (!video || !masterUrl || this.nativeLevels.length === 0 || index === this.nativeLevel) return;
+
+    const variant = this.nativeLevels[index];
+    const url = variant ? variant.uri : masterUrl;
+    this.nativeLevel = variant ? index : -1;
+    this.watchSourceLoad(url, this._ready ? video.currentTime : 0, !video.paused);
+    video.src = url;
+
+    if (variant) {
+      this.emit('qualitychange', {
+        index,
+        height: variant.height,
+        width: variant.width,
+        bitrate: variant.bandwidth,
+        allowed: index <= this.maxAllowedLevel(),
+      });
+    }
+  }
+
+  /** Dimensions and bitrate of the current levels, hls.js or native */
+  private levelInfo(): { width: number; height: number; bitrate: number }[] {
+    if (this.hls) {
+      return this.hls.levels.map(({ width, height, bitrate }) => ({ width, height, bitrate }));
+    }
+    return this.nativeLevels.map(({ width, height, bandwidth }) => ({ width, height, bitrate: bandwidth }));
+  }
+
+  /** Highest level index adaptive bitrate may pick under the quality policy */
+  private maxAllowedLevel(): number {
+    const levels = this.levelInfo();
+    const { capToSize, dataSaver, dataSaverBitrate, maxHeight } = this.qualityPolicy;
+    const video = this.video;
+    const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+    const size = capToSize && video && video.clientWidth > 0
+      ? { width: video.clientWidth * dpr, height: video.clientHeight * dpr }
+      : null;
+    return maxAllowedLevel(levels, { size, maxHeight, maxBitrate: dataSaver ? dataSaverBitrate : null });
+  }
+
+  /**
+   * Cap adaptive bitrate per the quality policy. For a freshly parsed manifest,
+   * also start at (and lock) the level nearest the remembered manual choice.
+   */
+  private applyQualityPolicy(manifestParsed = false): void {
+    const hls = this.hls;
+    if (!hls || hls.levels.length === 0) return;
+
+    const max = this.maxAllowedLevel();
+    const cap = max >= hls.levels.length - 1 ? -1 : max;
+    if (hls.autoLevelCapping !== cap) hls.autoLevelCapping = cap;
+    if (!manifestParsed) return;
+
+    const preferred = this.qualityPolicy.preference.height;
+    if (preferred !== null) {
+      const index = nearestLevel(hls.levels, preferred);
+      this.log('Preferred quality:', `${preferred}p`, '→ level', index);
+      hls.startLevel = index;
+      hls.loadLevel = index;
+    } else if (hls.manualLevel !== -1) {
+      // A reused instance keeps the previous video's manual level
+      hls.loadLevel = -1;
+    }
+  }
+
+  // ─── Live ───
+
+  private resetLive(): void {
+    this._live = false;
+    this._targetDuration = 0;
+    this._behindLive = false;
+    this._catchingUp = false;
+  }
+
+  /** The current source is live: stop resume bookkeeping and announce it (once per load) */
+  private markLive(targetDuration: number): void {
+    if (this._live) return;
+    this._live = true;
+    this._targetDuration = targetDuration;
+    if (this._resumeSaveTimer) {
+      clearTimeout(this._resumeSaveTimer);
+      this._resumeSaveTimer = null;
+    }
+    this.log('Live stream, target latency', this.targetLatency() + 's');
+    this.emit('live', { targetLatency: this.targetLatency() });
+  }
+
+  /** Seconds to stay behind the live edge */
+  private targetLatency(): number {
+    return this.livePolicy.targetLatency ?? this._targetDuration * 3;
+  }
+
+  /** Seekable window of a live stream (null for VOD or before anything is seekable) */
+  private dvrWindow(): { start: number; end: number } | null {
+    const seekable = this.video?.seekable;
+    if (!this._live || !seekable || seekable.length === 0) return null;
+    return { start: seekable.start(0), end: seekable.end(seekable.length - 1) };
+  }
+
+  /** Buffered progress (0-1): of the duration for VOD, of the DVR window for live */
+  private bufferedRatio(video: HTMLVideoElement): number {
+    if (video.buffered.length === 0) return 0;
+    const end = video.buffered.end(video.buffered.length - 1);
+    const dvr = this.dvrWindow();
+    if (dvr) return dvr.end > dvr.start ? Math.min(1, Math.max(0, (end - dvr.start) / (dvr.end - dvr.start))) : 0;
+    return video.duration > 0 && isFinite(video.duration) ? end / video.duration : 0;
+  }
+
+  /**
+   * Track the distance to the live edge: emit `behindlive` when the viewer crosses the
+   * threshold, and nudge the playback rate to win back small drift. Viewers who are
+   * far behind (paused, or seeked back in the DVR window) are left where they are.
+   */
+  private updateLive(video: HTMLVideoElement): void {
+    const dvr = this.dvrWindow();
+    if (!dvr) return;
+    const latency = Math.max(0, dvr.end - video.currentTime);
+    const target = this.targetLatency();
+
+    const behind = latency > target + this.livePolicy.behindThreshold;
+    if (behind !== this._behindLive) {
+      this._behindLive = behind;
+      this.emit('behindlive', { behind, latency });
+    }
+
+    if (!this.livePolicy.catchUp) return;
+    if (this._catchingUp) {
+      if (latency <= target || behind || video.paused) {
+        this._catchingUp = false;
+        video.playbackRate = 1;
+      }
+    } else if (!behind && !video.paused && video.playbackRate === 1 && latency > target + CATCH_UP_TOLERANCE) {
+      this.log('Catching up to live, latency', latency.toFixed(1) + 's');
+      this._catchingUp = true;
+      video.playbackRate = this.livePolicy.catchUpRate;
+    }
+  }
+
   private setupAutopause(element: HTMLVideoElement): void {
     if (typeof IntersectionObserver === 'undefined') return;
     this.destroyAutopause();
@@ -535,26 +1371,59 @@ export class Player {
   }
 
   private saveResumePosition(): void {
-    if (!this.config.resume || !this._currentRef || !this.video) return;
+    if (!this.config.resume || !this._currentRef || !this.video || this._live) return;
     const time = this.video.currentTime;
     if (time < 1) return; // Don't save near the start
-    try { localStorage.setItem(`3speak_pos_${this._currentRef}`, String(time)); } catch {}
+    this.config.resumeStore.set(this._currentRef, time).catch(() => {});
   }
 
-  private restoreResumePosition(): void {
-    if (!this.config.resume || !this._currentRef || !this.video) return;
-    try {
-      const saved = localStorage.getItem(`3speak_pos_${this._currentRef}`);
-      if (!saved) return;
-      const time = parseFloat(saved);
-      if (isNaN(time) || time < 1) return;
-      // Skip if near the end (within 3s)
-      const duration = this.video.duration;
-      if (duration && time > duration - 3) return;
-      this.video.currentTime = time;
-      this.emit('resume', { time, ref: this._currentRef });
-      this.log('Resumed at', time.toFixed(1) + 's');
-    } catch {}
+  private async restoreResumePosition(): Promise<void> {
+    const ref = this._currentRef;
+    if (!this.config.resume || !ref || !this._resumeLookup) return;
+    const saved = await this._resumeLookup;
+    // A different video may have been loaded while the store was answering
+    if (!saved || ref !== this._currentRef || !this.video) return;
+    // Live streams always start at the live edge
+    if (this._live || !isFinite(this.video.duration)) return;
+
+    const time = saved.time;
+    if (isNaN(time) || time < 1) return;
+    // Skip if near the end (within 3s)
+    const duration = this.video.duration;
+    if (duration && time > duration - 3) return;
+    this.video.currentTime = time;
+    this.emit('resume', { time, ref });
+    this.log('Resumed at', time.toFixed(1) + 's');
+  }
+
+  /** Accumulate real watch time and record a view once the configured rule is met */
+  private trackViewProgress(video: HTMLVideoElement): void {
+    const time = video.currentTime;
+    // Small forward steps only — seeks and loop restarts don't count as watching
+    const delta = time - this._lastTime;
+    this._lastTime = time;
+    if (video.paused || delta <= 0 || delta >= 2) return;
+    this._watched += delta;
+
+    const ref = this._viewRef;
+    if (!this.config.recordViews || !ref || this._viewRecorded) return;
+
+    const rule = this.config.recordViews === true ? {} : this.config.recordViews;
+    // A live stream has no duration to take a percentage of, so it falls back to seconds
+    const percent = this._live ? undefined : rule.percent;
+    const seconds = rule.seconds ?? (percent ? Infinity : 10);
+    const duration = video.duration;
+    const reachedPercent =
+      !!percent && duration > 0 && isFinite(duration) && this._watched >= (duration * percent) / 100;
+    if (this._watched < seconds && !reachedPercent) return;
+
+    this._viewRecorded = true;
+    const type = rule.type || 'embed';
+    const [owner, permlink] = ref.split('/');
+    this.log(`Recording ${type} view after ${this._watched.toFixed(1)}s:`, ref);
+    this.api.recordView(owner, permlink, type).then((recorded) => {
+      if (recorded) this.emit('viewrecorded', { ref, type });
+    });
   }
 
   private bindVideoEvents(video: HTMLVideoElement): void {
@@ -574,6 +1443,7 @@ export class Player {
         this._ready = true;
         const isVertical = h > w;
         this.restoreResumePosition();
+        if (!this.hls) this.applyPreferredAudioLanguage();
         this.emit('ready', { isVertical, width: w, height: h });
         this.emit('resize', { isVertical, width: w, height: h });
         this.emit('loading', false as any);
@@ -598,8 +1468,10 @@ export class Player {
         duration: video.duration || 0,
         paused: video.paused,
       });
+      this.trackViewProgress(video);
+      if (this._live) this.updateLive(video);
       // Throttle-save resume position (every 3s)
-      if (this.config.resume && this._currentRef && !this._resumeSaveTimer) {
+      if (this.config.resume && this._currentRef && !this._live && !this._resumeSaveTimer) {
         this._resumeSaveTimer = setTimeout(() => {
           this._resumeSaveTimer = null;
           this.saveResumePosition();
@@ -615,32 +1487,82 @@ export class Player {
     on('canplay', () => { if (this._ready) this.emit('loading', false as any); });
 
     on('progress', () => {
-      if (video.buffered.length > 0 && video.duration > 0) {
-        this.emit('buffered', video.buffered.end(video.buffered.length - 1) / video.duration);
-      }
+      if (video.buffered.length > 0) this.emit('buffered', this.bufferedRatio(video));
     });
 
     on('ratechange', () => {
       this.emit('ratechange', video.playbackRate);
     });
 
+    on('volumechange', () => {
+      this.emit('volumechange', { volume: video.volume, muted: video.muted });
+    });
+
+    // Re-bind cue forwarding when tracks are added (hls.js, native HLS) or modes change
+    const onTextTracksChange = () => this.bindActiveCues();
+    video.textTracks.addEventListener('change', onTextTracksChange);
+    video.textTracks.addEventListener('addtrack', onTextTracksChange);
+    this.cleanupFns.push(() => {
+      video.textTracks.removeEventListener('change', onTextTracksChange);
+      video.textTracks.removeEventListener('addtrack', onTextTracksChange);
+    });
+
+    // Native HLS audio renditions (hls.js reports switches through its own events)
+    const audioTracks = this.nativeAudioTracks();
+    if (audioTracks) {
+      const onAudioChange = () => {
+        if (this.hls) return;
+        const track = this.getAudioTracks()[this.getCurrentAudioTrack()];
+        if (track) this.emit('audiotrackchange', track);
+      };
+      audioTracks.addEventListener('change', onAudioChange);
+      this.cleanupFns.push(() => audioTracks.removeEventListener('change', onAudioChange));
+    }
+
     on('enterpictureinpicture' as any, () => this.emit('pip', true));
     on('leavepictureinpicture' as any, () => this.emit('pip', false));
 
-    const onFullscreenChange = () => {
-      this.emit('fullscreen', document.fullscreenElement === video);
-    };
-    document.addEventListener('fullscreenchange', onFullscreenChange);
-    this.cleanupFns.push(() => document.removeEventListener('fullscreenchange', onFullscreenChange));
+    // No document outside the browser (e.g. FakeVideoElement in plain Node)
+    if (typeof document !== 'undefined') {
+      const onFullscreenChange = () => {
+        this.emit('fullscreen', this.isFullscreen());
+      };
+      document.addEventListener('fullscreenchange', onFullscreenChange);
+      this.cleanupFns.push(() => document.removeEventListener('fullscreenchange', onFullscreenChange));
+    }
 
     // Native fallback on error (iOS / non-hls.js)
     on('error', () => {
-      if (!this.hls && !this.tryFallback()) {
-        this.emit('error', {
-          message: video.error?.message || 'Video playback error',
-          code: video.error?.code,
-          fatal: true,
-        });
+      if (this.hls) return;
+      const message = video.error?.message || 'Video playback error';
+
+      // MEDIA_ERR_NETWORK (2) / MEDIA_ERR_DECODE (3): reload the same URL where we were
+      const code = video.error?.code;
+      const kind = code === 2 ? 'network' : code === 3 ? 'media' : null;
+      const url = this.currentUrl;
+      if (kind && url) {
+        const resumeAt = video.currentTime;
+        const resumePlaying = this._ready && !video.paused;
+        // Stay on the manually chosen variant, if any
+        const src = this.nativeLevels[this.nativeLevel]?.uri ?? url;
+        const recover = () => {
+          this.watchSourceLoad(src, resumeAt, resumePlaying);
+          video.src = src;
+        };
+        if (this.scheduleRetry(kind, message, recover)) return;
+      }
+
+      const error = new PlayerError(
+        code === 1 ? PlayerErrorCode.ABORTED :
+        code === 2 ? PlayerErrorCode.NETWORK_ERROR :
+        code === 3 ? PlayerErrorCode.MEDIA_DECODE :
+        code === 4 ? PlayerErrorCode.MEDIA_UNSUPPORTED :
+        PlayerErrorCode.UNKNOWN,
+        message,
+        { url: url ?? undefined, fallbackIndex: this.sourceIndex, status: code, cause: video.error },
+      );
+      if (!this.tryFallback(message)) {
+        this.emit('error', this.exhausted(error));
       }
     });
   }
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Player } from './player';
+import { Playlist } from './playlist';
+import { createMockApi, FakeVideoElement, TEST_PLAYER_CONFIG, flushPromises, resetPlayerSingletons } from '../testing';
+
+const mock = createMockApi({
+  videos: [
+    { owner: 'alice', permlink: 'one' },
+    { owner: 'alice', permlink: 'two' },
+    { owner: 'alice', permlink: 'three' },
+  ],
+});
+
+const ITEMS = ['alice/one', 'alice/two', 'alice/three'];
+
+beforeEach(() => {
+  resetPlayerSingletons();
+  mock.reset();
+  mock.install();
+});
+
+afterEach(() => mock.restore());
+
+function createPlaylist(options = {}) {
+  const video = new FakeVideoElement();
+  const player = new Player(TEST_PLAYER_CONFIG).attach(video.asVideo());
+  const playlist = new Playlist(player, ITEMS, { prefetch: false, ...options });
+  return { video, player, playlist };
+}
+
+describe('Playlist', () => {
+  it('navigates with next(), previous() and jumpTo()', async () => {
+    const { player, playlist } = createPlaylist();
+    const changes: number[] = [];
+    playlist.on('itemchange', ({ index }) => changes.push(index));
+
+    await playlist.next();
+    expect(player.currentRef).toBe('alice/one');
+    await playlist.jumpTo(2);
+    expect(await playlist.next()).toBe(false);
+    await playlist.previous();
+
+    expect(changes).toEqual([0, 2, 1]);
+    expect(player.currentRef).toBe('alice/two');
+    await expect(playlist.jumpTo(3)).rejects.toThrow('out of range');
+  });
+
+  it('advances on ended and reports the end of the queue', async () => {
+    const { video, player, playlist } = createPlaylist();
+    let queueEnded = false;
+    playlist.on('queueend', () => { queueEnded = true; });
+
+    await playlist.jumpTo(1);
+    await flushPromises();
+    video.end();
+    await flushPromises();
+    expect(player.currentRef).toBe('alice/three');
+
+    video.end();
+    await flushPromises();
+    expect(queueEnded).toBe(true);
+  });
+
+  it('repeats the current item with repeat "one"', async () => {
+    const { video, player, playlist } = createPlaylist({ repeat: 'one' });
+    await playlist.jumpTo(0);
+    await flushPromises();
+    video.end();
+    await flushPromises();
+
+    expect(player.currentRef).toBe('alice/one');
+    expect(video.paused).toBe(false);
+  });
+
+  it('wraps around with repeat "all"', async () => {
+    const { player, playlist } = createPlaylist({ repeat: 'all' });
+    await playlist.jumpTo(2);
+    expect(await playlist.next()).toBe(true);
+    expect(player.currentRef).toBe('alice/one');
+    expect(await playlist.previous()).toBe(true);
+    expect(player.currentRef).toBe('alice/three');
+  });
+
+  it('has no current item after removing it, and continues from its neighbours', async () => {
+    const { player, playlist } = createPlaylist();
+    await playlist.jumpTo(1);
+
+    playlist.remove(1);
+    expect(playlist.currentIndex).toBe(-1);
+    expect(playlist.items).toEqual(['alice/one', 'alice/three']);
+
+    await playlist.next();
+    expect(player.currentRef).toBe('alice/three');
+
+    playlist.remove(1);
+    await playlist.previous();
+    expect(player.currentRef).toBe('alice/one');
+  });
+
+  it('only follows the player once it loads an item', async () => {
+    const { video, player, playlist } = createPlaylist();
+    await player.load('alice/two');
+    await flushPromises();
+    video.end();
+    await flushPromises();
+    expect(player.currentRef).toBe('alice/two');
+
+    playlist.destroy();
+    await playlist.jumpTo(0);
+    await flushPromises();
+    video.end();
+    await flushPromises();
+    expect(player.currentRef).toBe('alice/two');
+  });
+});
@@ -0,0 +1,328 @@
+import { Emitter } from './emitter';
+import { PlayerErrorCode, isPlayerError } from './errors';
+import type { Player } from './player';
+import type {
+  PlaylistItem,
+  PlaylistOptions,
+  PlaylistEvents,
+  RepeatMode,
+  EventUnsubscribe,
+} from '../types';
+
+const DEFAULT_OPTIONS: Required<PlaylistOptions> = {
+  autoAdvance: true,
+  autoPlay: true,
+  shuffle: false,
+  repeat: 'off',
+  prefetch: true,
+};
+
+/**
+ * Ordered queue of videos driving a single Player.
+ *
+ * Handles:
+ * - Auto-advancing to the next item when playback ends
+ * - next / previous / jump-to navigation
+ * - Shuffle and repeat-one / repeat-all modes
+ * - Prefetching the upcoming item's manifest
+ *
+ * @example
+ * ```js
+ * const player = new Player({ muted: true });
+ * player.attach(videoElement);
+ *
+ * const playlist = new Playlist(player, ['alice/intro', 'bob/part-2'], { repeat: 'all' });
+ * playlist.on('itemchange', ({ index }) => highlightRow(index));
+ * playlist.on('queueend', () => showEndScreen());
+ * playlist.jumpTo(0);
+ * ```
+ */
+export class Playlist extends Emitter<PlaylistEvents> {
+  private player: Player;
+  private options: Required<PlaylistOptions>;
+  private entries: PlaylistItem[] = [];
+  /** Play order as indices into `entries` (identity unless shuffled) */
+  private order: number[] = [];
+  /** Position within `order` of the current item (-1 = nothing loaded yet) */
+  private position = -1;
+  /** The current item was removed: `position` is the item before it, and there is no current item */
+  private currentRemoved = false;
+  private unsubs: EventUnsubscribe[] = [];
+
+  constructor(player: Player, items: PlaylistItem[] = [], options?: PlaylistOptions) {
+    super('[3Speak Playlist]');
+    this.player = player;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.setItems(items);
+  }
+
+  // ─── Navigation ───
+
+  /**
+   * Load the next item in play order.
+   * @returns false if the end of the queue was reached (and repeat is off)
+   */
+  async next(): Promise<boolean> {
+    if (this.order.length === 0) return false;
+
+    const previousIndex = this.currentIndex;
+    let pos = this.position + 1;
+    if (pos >= this.order.length) {
+      if (this.options.repeat !== 'all') {
+        this.emit('queueend');
+        return false;
+      }
+      if (this.options.shuffle) this.reshuffle(false);
+      pos = 0;
+    }
+
+    await this.loadAt(pos, previousIndex);
+    return true;
+  }
+
+  /**
+   * Load the previous item in play order.
+   * @returns false if already at the start (and repeat is off)
+   */
+  async previous(): Promise<boolean> {
+    if (this.order.length === 0) return false;
+
+    // After removing the current item, the item before it is at `position` itself
+    let pos = this.currentRemoved ? this.position : this.position - 1;
+    if (pos < 0) {
+      if (this.options.repeat !== 'all') return false;
+      pos = this.order.length - 1;
+    }
+
+    await this.loadAt(pos);
+    return true;
+  }
+
+  /**
+   * Load a specific item.
+   * @param index - Index in the original item list (not the shuffled order)
+   */
+  async jumpTo(index: number): Promise<void> {
+    if (index < 0 || index >= this.entries.length) {
+      throw new Error(`Playlist index out of range: ${index}`);
+    }
+    await this.loadAt(this.order.indexOf(index));
+  }
+
+  // ─── Modes ───
+
+  /** Enable/disable shuffle. The current item stays current. */
+  setShuffle(enabled: boolean): void {
+    this.options.shuffle = enabled;
+    if (enabled) {
+      this.reshuffle(true);
+    } else {
+      const current = this.currentIndex;
+      this.order = this.entries.map((_, i) => i);
+      this.position = current;
+    }
+  }
+
+  /** Set repeat mode ('off' | 'one' | 'all') */
+  setRepeat(mode: RepeatMode): void {
+    this.options.repeat = mode;
+  }
+
+  /** Enable/disable auto-advance on `ended` */
+  setAutoAdvance(enabled: boolean): void {
+    this.options.autoAdvance = enabled;
+  }
+
+  // ─── Queue Editing ───
+
+  /** Replace the whole queue. Nothing is loaded until next()/jumpTo() is called. */
+  setItems(items: PlaylistItem[]): void {
+    this.entries = [...items];
+    this.order = this.entries.map((_, i) => i);
+    this.position = -1;
+    this.currentRemoved = false;
+    if (this.options.shuffle) this.reshuffle(false);
+  }
+
+  /** Append one or more items to the end of the queue. */
+  add(items: PlaylistItem | PlaylistItem[]): void {
+    const list = Array.isArray(items) ? items : [items];
+    for (const item of list) {
+      const index = this.entries.push(item) - 1;
+      if (this.options.shuffle) {
+        // Insert somewhere after the current item so it still gets played this round
+        const min = this.position + 1;
+        const at = min + Math.floor(Math.random() * (this.order.length - min + 1));
+        this.order.splice(at, 0, index);
+      } else {
+        this.order.push(index);
+      }
+    }
+  }
+
+  /**
+   * Remove an item from the queue.
+   * Removing the current item does not stop playback, but there is no current item
+   * (`currentIndex` -1) until next()/previous() continue from its neighbours.
+   * @param index - Index in the original item list
+   */
+  remove(index: number): void {
+    if (index < 0 || index >= this.entries.length) return;
+    const pos = this.order.indexOf(index);
+
+    this.entries.splice(index, 1);
+    this.order.splice(pos, 1);
+    this.order = this.order.map((i) => (i > index ? i - 1 : i));
+
+    if (pos === this.position) this.currentRemoved = true;
+    if (pos <= this.position) this.position--;
+  }
+
+  /** Remove all items. */
+  clear(): void {
+    this.setItems([]);
+  }
+
+  // ─── State ───
+
+  /** Current item's index in the original item list (-1 if none) */
+  get currentIndex(): number {
+    return this.position >= 0 && !this.currentRemoved ? this.order[this.position] : -1;
+  }
+
+  /** Current item (undefined if none) */
+  get currentItem(): PlaylistItem | undefined {
+    const index = this.currentIndex;
+    return index >= 0 ? this.entries[index] : undefined;
+  }
+
+  /** Copy of the queue in original order */
+  get items(): PlaylistItem[] {
+    return [...this.entries];
+  }
+
+  /** Number of items in the queue */
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /** Whether shuffle is enabled */
+  get shuffle(): boolean {
+    return this.options.shuffle;
+  }
+
+  /** Current repeat mode */
+  get repeat(): RepeatMode {
+    return this.options.repeat;
+  }
+
+  /** Whether next() would load another item */
+  get hasNext(): boolean {
+    return this.peekNext() !== -1;
+  }
+
+  /** Whether previous() would load another item */
+  get hasPrevious(): boolean {
+    if (this.order.length === 0) return false;
+    return this.position > (this.currentRemoved ? -1 : 0) || this.options.repeat === 'all';
+  }
+
+  // ─── Cleanup ───
+
+  /**
+   * Stop listening to the player and drop all listeners. The player itself is left intact.
+   * The playlist only follows the player again if it loads another item.
+   */
+  destroy(): void {
+    this.unsubs.forEach((fn) => fn());
+    this.unsubs = [];
+    this.removeAllListeners();
+  }
+
+  // ─── Private ───
+
+  private async loadAt(pos: number, previousIndex = this.currentIndex): Promise<void> {
+    // Follow the player from the first load on, so an unused Playlist holds no subscription
+    if (this.unsubs.length === 0) this.unsubs.push(this.player.on('ended', () => this.handleEnded()));
+    this.position = pos;
+    this.currentRemoved = false;
+    const index = this.order[pos];
+    const item = this.entries[index];
+
+    this.emit('itemchange', { item, index, previousIndex });
+    try {
+      await this.player.load(item);
+    } catch (e) {
+      // Superseded by a newer jump — that load takes over
+      if (isPlayerError(e) && e.code === PlayerErrorCode.ABORTED) return;
+      throw e;
+    }
+
+    if (this.options.autoPlay) this.player.play().catch(() => {});
+    if (this.options.prefetch) this.prefetchUpcoming();
+  }
+
+  private handleEnded(): void {
+    if (!this.options.autoAdvance || (this.position < 0 && !this.currentRemoved)) return;
+
+    // A removed item isn't repeated — move on to its neighbour
+    if (this.options.repeat === 'one' && !this.currentRemoved) {
+      this.player.seek(0);
+      this.player.play().catch(() => {});
+      return;
+    }
+
+    this.next().catch((e) => {
+      console.error('[3Speak Playlist] Failed to advance:', e);
+    });
+  }
+
+  /** Index (in original order) of the item next() would load, or -1 */
+  private peekNext(): number {
+    if (this.order.length === 0) return -1;
+    const pos = this.position + 1;
+    if (pos < this.order.length) return this.order[pos];
+    return this.options.repeat === 'all' ? this.order[0] : -1;
+  }
+
+  private prefetchUpcoming(): void {
+    const index = this.peekNext();
+    if (index === -1 || index === this.currentIndex) return;
+    const item = this.entries[index];
+    const api = this.player.apiClient;
+
+    if (typeof item === 'string') {
+      const [author, permlink] = item.replace(/^@/, '').split('/');
+      if (!author || !permlink) return;
+      api.fetchSource(author, permlink)
+        .then((source) => api.prefetchManifest(source.url))
+        .catch(() => {});
+    } else {
+      api.prefetchManifest(item.url);
+    }
+  }
+
+  /**
+   * Rebuild a random play order (Fisher-Yates).
+   * @param keepCurrent - Keep the current item at the front and make it current
+   */
+  private reshuffle(keepCurrent: boolean): void {
+    const current = this.currentIndex;
+    const rest = this.entries.map((_, i) => i).filter((i) => !keepCurrent || i !== current);
+
+    for (let i = rest.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [rest[i], rest[j]] = [rest[j], rest[i]];
+    }
+
+    if (keepCurrent && current >= 0) {
+      this.order = [current, ...rest];
+      this.position = 0;
+    } else {
+      // Avoid replaying the item that just finished when wrapping around
+      if (rest.length > 1 && rest[0] === current) rest.push(rest.shift()!);
+      this.order = rest;
+      this.position = -1;
+    }
+  }
+}
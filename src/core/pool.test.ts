@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PlayerPool } from './pool';
+import { createMockApi, FakeVideoElement, TEST_PLAYER_CONFIG, flushPromises, resetPlayerSingletons } from '../testing';
+
+const mock = createMockApi({
+  videos: [
+    { owner: 'alice', permlink: 'one' },
+    { owner: 'alice', permlink: 'two' },
+    { owner: 'alice', permlink: 'three' },
+  ],
+});
+
+beforeEach(() => {
+  resetPlayerSingletons();
+  mock.reset();
+  mock.install();
+});
+
+afterEach(() => mock.restore());
+
+/** Pool with one fake element per ref, loaded and ready */
+async function createPool(refs: string[]) {
+  const pool = new PlayerPool(TEST_PLAYER_CONFIG);
+  const videos = new Map<string, FakeVideoElement>();
+  for (const ref of refs) {
+    const video = new FakeVideoElement();
+    videos.set(ref, video);
+    const [author, permlink] = ref.split('/');
+    await pool.addByRef(ref, video.asVideo(), author, permlink);
+  }
+  await flushPromises();
+  return { pool, videos };
+}
+
+describe('PlayerPool', () => {
+  it('plays the activated player and pauses the rest', async () => {
+    const { pool, videos } = await createPool(['alice/one', 'alice/two']);
+
+    await pool.activate('alice/one');
+    expect(videos.get('alice/one')!.paused).toBe(false);
+    expect(pool.activePlayerId).toBe('alice/one');
+
+    await pool.activate('alice/two');
+    expect(videos.get('alice/one')!.paused).toBe(true);
+    expect(videos.get('alice/two')!.paused).toBe(false);
+    expect(pool.getActive()).toBe(pool.get('alice/two'));
+  });
+
+  it('rejects activate() when play() is blocked', async () => {
+    const pool = new PlayerPool(TEST_PLAYER_CONFIG);
+    pool.add('blocked', new FakeVideoElement({ allowPlay: false }).asVideo());
+    await expect(pool.activate('blocked')).rejects.toMatchObject({ name: 'NotAllowedError' });
+  });
+
+  it('re-emits player events tagged with the id', async () => {
+    const { pool, videos } = await createPool(['alice/one', 'alice/two']);
+    const played: string[] = [];
+    const ended: string[] = [];
+    pool.on('play', (id) => played.push(id));
+    pool.on('ended', (id) => ended.push(id));
+
+    await pool.activate('alice/two');
+    videos.get('alice/two')!.end();
+    await pool.activate('alice/one');
+
+    expect(played).toEqual(['alice/two', 'alice/one']);
+    expect(ended).toEqual(['alice/two']);
+  });
+
+  it('shares settings and syncs changes made on the active player', async () => {
+    const { pool, videos } = await createPool(['alice/one', 'alice/two']);
+    expect(videos.get('alice/one')!.muted).toBe(true);
+
+    await pool.activate('alice/one');
+    pool.get('alice/one')!.setMuted(false);
+    videos.get('alice/one')!.dispatch('volumechange');
+    expect(pool.settings.muted).toBe(false);
+    expect(videos.get('alice/two')!.muted).toBe(false);
+  });
+
+  it('retainOnly() destroys players outside the set', async () => {
+    const { pool } = await createPool(['alice/one', 'alice/two', 'alice/three']);
+    const removed: string[] = [];
+    pool.on('playerremoved', (id) => removed.push(id));
+
+    pool.retainOnly(['alice/two']);
+    expect(pool.ids).toEqual(['alice/two']);
+    expect(removed.sort()).toEqual(['alice/one', 'alice/three']);
+  });
+});
@@ -1,7 +1,31 @@
-import { Player } from './player';
+import { Player, PLAYER_EVENTS } from './player';
 import { ThreeSpeakApi } from './api';
+import { Emitter } from './emitter';
 import { detectPlatform } from './platform';
-import type { PlayerConfig, VideoSource } from '../types';
+import { cdnManager } from './cdn';
+import type {
+  PlayerConfig,
+  PlayerPoolOptions,
+  PlayerEvents,
+  PlayerPoolEvents,
+  PoolSettings,
+  PoolSlot,
+  PlaylistItem,
+  VideoSource,
+  EventUnsubscribe,
+} from '../types';
+
+interface RecycledSlot extends PoolSlot {
+  /** Source loaded into the slot — kept after release so re-binding the same video skips the reload */
+  key: string | null;
+  /** Bind order, for least-recently-used reuse */
+  lastUsed: number;
+}
+
+/** Identity of a source for change detection */
+function sourceKey(source: PlaylistItem): string {
+  return typeof source === 'string' ? source.replace(/^@/, '') : source.url;
+}
 
 /**
  * Manages a pool of Player instances for feed/shorts-style UIs.
@@ -11,6 +35,9 @@ import type { PlayerConfig, VideoSource } from '../types';
  * - Pausing all except the active player
  * - Manifest prefetching for upcoming videos on iOS
  * - Cleaning up off-screen players
+ * - Shared settings (muted, volume, captions…) applied to current and future players
+ * - Re-emitting every player's events tagged with its id
+ * - Optionally recycling a fixed set of players and <video> elements (iOS)
  *
  * @example
  * ```js
@@ -26,20 +53,66 @@ import type { PlayerConfig, VideoSource } from '../types';
  * // Remove when scrolled out of range
  * pool.remove('vid-2');
  *
+ * // Settings stick for players added later; events arrive tagged with the id
+ * pool.updateSettings({ muted: false, captions: 'en' });
+ * pool.on('ended', (id) => console.log(id, 'finished'));
+ *
  * // Clean up
  * pool.destroy();
+ *
+ * // Recycling mode: 3 players/<video> elements rebound as the user scrolls
+ * const recycled = new PlayerPool({ muted: true }, { recycle: 3 });
+ * recycled.bind('vid-7', slotElement7, 'author/permlink');
  * ```
  */
-export class PlayerPool {
+export class PlayerPool extends Emitter<PlayerPoolEvents> {
   private players = new Map<string, Player>();
   private activeId: string | null = null;
   private config: PlayerConfig;
   private api: ThreeSpeakApi;
   private platform = detectPlatform();
+  private recycled: RecycledSlot[] = [];
+  private useCounter = 0;
+  /** Last known orientation per id, so a re-bound element can be sized before metadata loads */
+  private orientations = new Map<string, boolean>();
+  private _settings: PoolSettings;
+  /** Set while settings are pushed to players, so synchronous events (texttrackchange) don't sync back */
+  private applying = false;
+  private unsubs = new Map<Player, EventUnsubscribe[]>();
 
-  constructor(config?: PlayerConfig) {
+  constructor(config?: PlayerConfig, options?: PlayerPoolOptions) {
+    super('[3Speak Pool]');
     this.config = config || {};
     this.api = new ThreeSpeakApi(config?.apiBase, config?.debug);
+    this._settings = {
+      muted: this.config.muted ?? true,
+      volume: 1,
+      playbackRate: 1,
+      loop: this.config.loop ?? false,
+      maxHeight: this.config.quality?.maxHeight ?? null,
+      dataSaver: this.config.quality?.dataSaver ?? false,
+      audioOnly: this.config.audioOnly ?? false,
+      captions: null,
+      ...options?.settings,
+    };
+
+    const size = options?.recycle || 0;
+    const createElement = options?.createElement || (() => document.createElement('video'));
+    for (let index = 0; index < size; index++) {
+      const element = createElement();
+      const player = new Player({ ...this.config, reuseHls: true });
+      player.attach(element);
+      const slot: RecycledSlot = { index, id: null, player, element, key: null, lastUsed: 0 };
+      const onSize = ({ isVertical }: { isVertical: boolean }) => {
+        if (!slot.id) return;
+        this.orientations.set(slot.id, isVertical);
+        element.dataset.orientation = isVertical ? 'vertical' : 'horizontal';
+      };
+      player.on('ready', onSize);
+      player.on('resize', onSize);
+      this.track(player, () => slot.id);
+      this.recycled.push(slot);
+    }
   }
 
   /**
@@ -52,18 +125,21 @@ export class PlayerPool {
     // Reuse existing player if same element
     let player = this.players.get(id);
     if (player && player.element === element) {
-      if (source) player.load(source);
+      // Failures surface through the player's error event; superseded loads reject with ABORTED
+      if (source) player.load(source).catch(() => {});
       return player;
     }
 
-    // Clean up old player for this id
-    if (player) player.destroy();
+    // Clean up old player for this id (recycled players go back to their slot)
+    if (player) this.discard(id);
 
     player = new Player(this.config);
     player.attach(element);
     this.players.set(id, player);
+    this.track(player, () => id);
+    this.emit('playeradded', id, player);
 
-    if (source) player.load(source);
+    if (source) player.load(source).catch(() => {});
 
     return player;
   }
@@ -77,6 +153,81 @@ export class PlayerPool {
     return player;
   }
 
+  // ─── Recycling ───
+
+  /**
+   * Bind a video id to one of the pool's recycled players (recycling mode only).
+   * Takes a free slot, or the least recently used one that isn't active, moves its
+   * <video> into `host` and loads `source` — reusing the slot's hls.js instance.
+   * Re-binding an id that is still bound just moves the element.
+   * @param id - Logical video id
+   * @param host - Element the <video> is appended to
+   * @param source - "author/permlink" ref or VideoSource
+   */
+  bind(id: string, host: HTMLElement, source: PlaylistItem): Player {
+    if (this.recycled.length === 0) {
+      throw new Error('PlayerPool.bind() requires recycling mode: new PlayerPool(config, { recycle: n })');
+    }
+
+    const key = sourceKey(source);
+    let slot = this.recycled.find((s) => s.id === id);
+    if (!slot) {
+      if (this.players.has(id)) this.discard(id);
+      slot = this.pickSlot(key);
+      if (slot.id !== null) this.release(slot.id);
+      slot.id = id;
+      this.players.set(id, slot.player);
+      this.emit('playeradded', id, slot.player);
+    }
+    slot.lastUsed = ++this.useCounter;
+
+    const { element, player } = slot;
+    if (element.parentNode !== host) host.appendChild(element);
+
+    if (slot.key !== key) {
+      slot.key = key;
+      player.pause();
+      // The previous video's poster and orientation don't apply to this one
+      element.removeAttribute('poster');
+      if (typeof source !== 'string' && source.poster) element.poster = source.poster;
+      const orientation = this.orientations.get(id);
+      if (orientation === undefined) delete element.dataset.orientation;
+      else element.dataset.orientation = orientation ? 'vertical' : 'horizontal';
+      // Failures surface through the player's error event; superseded loads reject with ABORTED
+      player.load(source).catch(() => {});
+    }
+    return player;
+  }
+
+  /**
+   * Unbind an id from its recycled slot, leaving the slot free for reuse.
+   * The player is paused, not destroyed, and its <video> stays where it is until re-bound.
+   */
+  release(id: string): void {
+    const slot = this.recycled.find((s) => s.id === id);
+    if (!slot) return;
+    slot.player.pause();
+    slot.id = null;
+    this.players.delete(id);
+    if (this.activeId === id) this.setActiveId(null);
+    this.emit('playerremoved', id);
+  }
+
+  /** Physical slot index an id is bound to (-1 if it isn't bound to a recycled slot) */
+  slotOf(id: string): number {
+    return this.recycled.find((s) => s.id === id)?.index ?? -1;
+  }
+
+  /** Recycled slots and the ids bound to them (empty outside recycling mode) */
+  get slots(): PoolSlot[] {
+    return this.recycled.map(({ index, id, player, element }) => ({ index, id, player, element }));
+  }
+
+  /** Whether the pool was created in recycling mode */
+  get recycling(): boolean {
+    return this.recycled.length > 0;
+  }
+
   /**
    * Get a player by id.
    */
@@ -85,30 +236,28 @@ export class PlayerPool {
   }
 
   /**
-   * Remove a player from the pool and destroy it.
+   * Remove a player from the pool and destroy it (recycled players are released instead).
    */
   remove(id: string): void {
-    const player = this.players.get(id);
-    if (player) {
-      player.destroy();
-      this.players.delete(id);
-      if (this.activeId === id) this.activeId = null;
-    }
+    if (this.players.has(id)) this.discard(id);
   }
 
   /**
    * Activate a player (play it, pause all others).
+   * @returns The active player's play() promise (rejects e.g. when autoplay is blocked)
    */
-  activate(id: string): void {
-    this.activeId = id;
+  activate(id: string): Promise<void> {
+    this.setActiveId(id);
 
+    let playing = Promise.resolve();
     for (const [playerId, player] of this.players) {
       if (playerId === id) {
-        player.play();
+        playing = player.play();
       } else {
         player.pause();
       }
     }
+    return playing;
   }
 
   /** Pause all players. */
@@ -118,18 +267,35 @@ export class PlayerPool {
     }
   }
 
-  /** Set muted state on all players. */
+  /** Set muted state on all current and future players. */
   setAllMuted(muted: boolean): void {
-    for (const player of this.players.values()) {
-      player.setMuted(muted);
-    }
+    this.updateSettings({ muted });
   }
 
-  /** Set loop on all players. */
+  /** Set loop on all current and future players. */
   setAllLoop(loop: boolean): void {
-    for (const player of this.players.values()) {
-      player.setLoop(loop);
-    }
+    this.updateSettings({ loop });
+  }
+
+  // ─── Shared settings ───
+
+  /**
+   * Shared settings applied to every current and future player.
+   * Muting/volume and caption changes made on the active player flow back in here,
+   * so unmuting once keeps the rest of the feed unmuted.
+   */
+  get settings(): PoolSettings {
+    return { ...this._settings };
+  }
+
+  /** Change shared settings and apply them to every player */
+  updateSettings(changes: Partial<PoolSettings>): void {
+    const next = { ...this._settings, ...changes };
+    const changed = (Object.keys(changes) as (keyof PoolSettings)[]).some((key) => next[key] !== this._settings[key]);
+    this._settings = next;
+    const keys = new Set(Object.keys(changes) as (keyof PoolSettings)[]);
+    for (const player of this.allPlayers()) this.applySettings(player, player.ready, keys);
+    if (changed) this.emit('settingschange', this.settings);
   }
 
   /** Get the currently active player. */
@@ -162,24 +328,22 @@ export class PlayerPool {
 
   /**
    * Prefetch a manifest by author/permlink.
+   * Warms the healthiest host in the source chain rather than always the primary.
    */
   async prefetchByRef(author: string, permlink: string): Promise<void> {
     const source = await this.api.fetchSource(author, permlink);
-    return this.api.prefetchManifest(source.url);
+    const [url] = (this.config.cdn || cdnManager).order([source.url, ...(source.fallbacks || [])]);
+    return this.api.prefetchManifest(url);
   }
 
   /**
-   * Retain only the given ids, destroy all others.
+   * Retain only the given ids, destroy (or, when recycled, release) all others.
    * Useful for keeping a sliding window of players around the current index.
    */
   retainOnly(ids: Set<string> | string[]): void {
     const keep = ids instanceof Set ? ids : new Set(ids);
-    for (const [id, player] of this.players) {
-      if (!keep.has(id)) {
-        player.destroy();
-        this.players.delete(id);
-        if (this.activeId === id) this.activeId = null;
-      }
+    for (const id of [...this.players.keys()]) {
+      if (!keep.has(id)) this.discard(id);
     }
   }
 
@@ -187,10 +351,137 @@ export class PlayerPool {
    * Destroy all players and the pool.
    */
   destroy(): void {
-    for (const player of this.players.values()) {
+    const ids = this.ids;
+    for (const player of this.allPlayers()) {
+      this.untrack(player);
       player.destroy();
     }
+    for (const slot of this.recycled) slot.element.remove();
     this.players.clear();
+    this.recycled = [];
+    this.orientations.clear();
     this.activeId = null;
+    ids.forEach((id) => this.emit('playerremoved', id));
+    this.removeAllListeners();
+  }
+
+  // ─── Private ───
+
+  /** Release a recycled id, or destroy an ordinary player */
+  private discard(id: string): void {
+    if (this.slotOf(id) !== -1) {
+      this.release(id);
+      return;
+    }
+    const player = this.players.get(id);
+    if (!player) return;
+    this.untrack(player);
+    player.destroy();
+    this.players.delete(id);
+    if (this.activeId === id) this.setActiveId(null);
+    this.emit('playerremoved', id);
+  }
+
+  private setActiveId(id: string | null): void {
+    const previousId = this.activeId;
+    this.activeId = id;
+    if (id !== previousId) this.emit('activechange', { id, previousId });
+  }
+
+  /** Pooled players plus free recycled ones */
+  private allPlayers(): Player[] {
+    const players = new Set(this.players.values());
+    this.recycled.forEach((slot) => players.add(slot.player));
+    return [...players];
+  }
+
+  /**
+   * Apply shared settings to `player`, re-emit its events tagged with `idOf()`
+   * (skipped while that is null, i.e. a free recycled slot) and sync user changes
+   * on the active player back into the settings.
+   */
+  private track(player: Player, idOf: () => string | null): void {
+    // PlayerPoolEvents[K] is PooledPlayerEvents[K] for every player event, which TS can't see for a generic K
+    const emitTagged = this.emit.bind(this) as
+      <K extends keyof PlayerEvents>(name: K, id: string, ...args: Parameters<PlayerEvents[K]>) => void;
+    const forward = <K extends keyof PlayerEvents>(name: K) => {
+      const handler = (...args: Parameters<PlayerEvents[K]>) => {
+        const id = idOf();
+        if (id !== null) emitTagged(name, id, ...args);
+      };
+      return player.on(name, handler as PlayerEvents[K]);
+    };
+    const unsubs = PLAYER_EVENTS.map(forward);
+
+    const fromActive = () => !this.applying && idOf() !== null && idOf() === this.activeId;
+    unsubs.push(
+      // Captions depend on each new video's tracks; loading resets the rate
+      player.on('ready', () => this.applySettings(player, true, new Set(['captions', 'playbackRate']))),
+      player.on('volumechange', ({ volume, muted }) => {
+        if (fromActive()) this.updateSettings({ volume, muted });
+      }),
+      player.on('texttrackchange', (trackId) => {
+        if (!fromActive()) return;
+        if (trackId === null) {
+          // Loading a new video also clears the track; only an explicit "off" counts
+          if (player.ready) this.updateSettings({ captions: null });
+          return;
+        }
+        const track = player.getTextTracks().find((t) => t.id === trackId);
+        if (track?.language) this.updateSettings({ captions: track.language });
+      }),
+    );
+    this.unsubs.set(player, unsubs);
+    this.applySettings(player);
+  }
+
+  private untrack(player: Player): void {
+    this.unsubs.get(player)?.forEach((fn) => fn());
+    this.unsubs.delete(player);
+  }
+
+  /**
+   * Push shared settings to one player. `loaded`: its text tracks are known;
+   * `only`: apply just these keys (so e.g. a long-press speed-up survives a volume change)
+   */
+  private applySettings(player: Player, loaded = player.ready, only?: Set<keyof PoolSettings>): void {
+    const settings = this._settings;
+    const has = (key: keyof PoolSettings) => !only || only.has(key);
+    this.applying = true;
+    try {
+      const state = player.getState();
+      if (has('muted') && state.muted !== settings.muted) player.setMuted(settings.muted);
+      if (has('volume') && state.volume !== settings.volume) player.setVolume(settings.volume);
+      if (has('playbackRate') && state.playbackRate !== settings.playbackRate) {
+        player.setPlaybackRate(settings.playbackRate);
+      }
+      if (has('audioOnly') && state.audioOnly !== settings.audioOnly) player.setAudioOnly(settings.audioOnly);
+      if (has('loop')) player.setLoop(settings.loop);
+      if (has('maxHeight') || has('dataSaver')) {
+        player.setQualityPolicy({ maxHeight: settings.maxHeight, dataSaver: settings.dataSaver });
+      }
+      if (!loaded || !has('captions')) return;
+
+      const language = settings.captions?.toLowerCase();
+      const track = language
+        ? player.getTextTracks().find((t) => t.language.toLowerCase().startsWith(language))
+        : undefined;
+      const trackId = track?.id ?? null;
+      if ((trackId !== null || !language) && state.textTrack !== trackId) player.setTextTrack(trackId);
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * Slot for a new binding: a free one that already holds `key`, then any free one,
+   * then the least recently used slot that isn't active.
+   */
+  private pickSlot(key: string): RecycledSlot {
+    const byAge = [...this.recycled].sort((a, b) => a.lastUsed - b.lastUsed);
+    return byAge.find((s) => s.id === null && s.key === key)
+      || byAge.find((s) => s.id === null)
+      || byAge.find((s) => s.id !== this.activeId)
+      || byAge[0];
   }
 }
@@ -0,0 +1,93 @@
+/** Dimensions and bitrate of an HLS rendition, sorted ascending as hls.js does */
+interface LevelInfo {
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+/** Ceilings a quality policy imposes on adaptive bitrate */
+export interface LevelLimits {
+  /** Rendered size of the <video> in device pixels (null = not laid out / no size cap) */
+  size: { width: number; height: number } | null;
+  /** Highest rendition height in px */
+  maxHeight: number | null;
+  /** Highest bitrate in bits/s */
+  maxBitrate: number | null;
+}
+
+/**
+ * Highest level index the limits allow. For the size cap that is the smallest level
+ * covering the rendered size (like hls.js `capLevelToPlayerSize`), so nothing is upscaled;
+ * the lowest level is always allowed.
+ */
+export function maxAllowedLevel(levels: LevelInfo[], limits: LevelLimits): number {
+  let max = levels.length - 1;
+  const { size, maxHeight, maxBitrate } = limits;
+  if (size) {
+    const covering = levels.findIndex((l) => l.width >= size.width || l.height >= size.height);
+    if (covering !== -1) max = Math.min(max, covering);
+  }
+  if (maxHeight !== null) max = Math.min(max, lastIndexWhere(levels, (l) => l.height <= maxHeight));
+  if (maxBitrate !== null) max = Math.min(max, lastIndexWhere(levels, (l) => l.bitrate <= maxBitrate));
+  return Math.max(0, max);
+}
+
+/** Index of the level whose height is closest to `height` (the higher one on ties) */
+export function nearestLevel(levels: LevelInfo[], height: number): number {
+  let best = -1;
+  levels.forEach((level, index) => {
+    if (best === -1 || Math.abs(level.height - height) <= Math.abs(levels[best].height - height)) best = index;
+  });
+  return best;
+}
+
+function lastIndexWhere(levels: LevelInfo[], test: (level: LevelInfo) => boolean): number {
+  let found = 0;
+  levels.forEach((level, index) => {
+    if (test(level)) found = index;
+  });
+  return found;
+}
+
+/**
+ * The viewer's manual quality choice ("always 720p"), kept across load() calls
+ * and shared between players.
+ *
+ * A single shared instance (`qualityPreference`) is used by every Player and
+ * PlayerPool unless one is passed through `PlayerConfig.quality.preference`.
+ * With a `storageKey` the choice is also saved to localStorage.
+ */
+export class QualityPreference {
+  private _height: number | null = null;
+
+  constructor(private readonly storageKey?: string) {
+    if (!storageKey) return;
+    try {
+      const saved = Number(localStorage.getItem(storageKey));
+      if (saved > 0) this._height = saved;
+    } catch {}
+  }
+
+  /** Preferred rendition height in px (null = automatic) */
+  get height(): number | null {
+    return this._height;
+  }
+
+  /** Remember a height (null = back to automatic) */
+  set(height: number | null): void {
+    this._height = height && height > 0 ? height : null;
+    if (!this.storageKey) return;
+    try {
+      if (this._height === null) localStorage.removeItem(this.storageKey);
+      else localStorage.setItem(this.storageKey, String(this._height));
+    } catch {}
+  }
+
+  /** Forget the choice */
+  clear(): void {
+    this.set(null);
+  }
+}
+
+/** Shared default preference used by all players */
+export const qualityPreference = new QualityPreference();
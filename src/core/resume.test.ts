@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LocalStorageResumeStore, MemoryResumeStore } from './resume';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('LocalStorageResumeStore', () => {
+  it('rewrites a legacy entry once, then evicts it by TTL', async () => {
+    localStorage.setItem('3speak_pos_alice/intro', '42');
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const store = new LocalStorageResumeStore({ ttl: 7 * DAY });
+
+    expect(await store.get('alice/intro')).toEqual({ ref: 'alice/intro', time: 42, updatedAt: Date.now() });
+    expect(await store.get('alice/intro')).toMatchObject({ time: 42 });
+    await store.list();
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(setItem).toHaveBeenCalledWith('3speak_pos_alice/intro', JSON.stringify({ time: 42, updatedAt: Date.now() }));
+
+    // The TTL runs from the migration, not from whenever the legacy value was saved
+    vi.advanceTimersByTime(7 * DAY);
+    await store.evict();
+    expect(localStorage.getItem('3speak_pos_alice/intro')).not.toBeNull();
+
+    vi.advanceTimersByTime(1);
+    await store.evict();
+    expect(localStorage.getItem('3speak_pos_alice/intro')).toBeNull();
+    expect(setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores expired entries on read and removes them', async () => {
+    const store = new LocalStorageResumeStore({ ttl: DAY });
+    await store.set('alice/intro', 12);
+
+    vi.advanceTimersByTime(DAY + 1);
+    expect(await store.get('alice/intro')).toBeNull();
+    expect(localStorage.getItem('3speak_pos_alice/intro')).toBeNull();
+  });
+
+  it('leaves keys outside its prefix alone', async () => {
+    localStorage.setItem('other_key', '42');
+    const store = new LocalStorageResumeStore({ ttl: DAY, prefix: 'test_pos_' });
+    await store.set('alice/intro', 12);
+
+    expect(await store.list()).toEqual([{ ref: 'alice/intro', time: 12, updatedAt: Date.now() }]);
+    vi.advanceTimersByTime(DAY + 1);
+    await store.evict();
+    expect(localStorage.getItem('other_key')).toBe('42');
+  });
+});
+
+describe('MemoryResumeStore', () => {
+  it('evicts the least recently saved entries beyond maxEntries', async () => {
+    const store = new MemoryResumeStore({ maxEntries: 2 });
+    await store.set('alice/one', 1);
+    vi.advanceTimersByTime(1000);
+    await store.set('alice/two', 2);
+    vi.advanceTimersByTime(1000);
+    await store.set('alice/one', 10);
+    vi.advanceTimersByTime(1000);
+    await store.set('alice/three', 3);
+
+    expect((await store.list()).map((e) => e.ref).sort()).toEqual(['alice/one', 'alice/three']);
+    expect(await store.get('alice/one')).toMatchObject({ time: 10 });
+  });
+
+  it('drops expired entries before counting towards maxEntries', async () => {
+    const store = new MemoryResumeStore({ ttl: DAY, maxEntries: 2 });
+    await store.set('alice/old', 1);
+    vi.advanceTimersByTime(DAY + 1);
+    await store.set('alice/one', 2);
+    await store.set('alice/two', 3);
+
+    expect((await store.list()).map((e) => e.ref).sort()).toEqual(['alice/one', 'alice/two']);
+  });
+});
@@ -0,0 +1,203 @@
+import type { ResumeEntry, ResumeStore, ResumeStoreOptions } from '../types';
+
+const DEFAULT_OPTIONS: Required<ResumeStoreOptions> = {
+  ttl: 30 * 24 * 60 * 60 * 1000, // 30 days
+  maxEntries: 500,
+};
+
+/**
+ * Shared TTL + size eviction for the built-in stores.
+ * Eviction runs the first time each ref is saved (not on every throttled save),
+ * and expired entries are also ignored on read.
+ */
+abstract class EvictingStore implements ResumeStore {
+  protected limits: Required<ResumeStoreOptions>;
+  private seen = new Set<string>();
+
+  constructor(options?: ResumeStoreOptions) {
+    this.limits = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  abstract list(): Promise<ResumeEntry[]>;
+  abstract delete(ref: string): Promise<void>;
+  protected abstract read(ref: string): Promise<ResumeEntry | null>;
+  protected abstract write(entry: ResumeEntry): Promise<void>;
+
+  async get(ref: string): Promise<ResumeEntry | null> {
+    const entry = await this.read(ref);
+    if (entry && this.isExpired(entry, Date.now())) {
+      await this.delete(ref);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(ref: string, time: number): Promise<void> {
+    await this.write({ ref, time, updatedAt: Date.now() });
+    if (!this.seen.has(ref)) {
+      this.seen.add(ref);
+      await this.evict();
+    }
+  }
+
+  /** Drop expired entries, then the least recently saved ones beyond maxEntries. */
+  async evict(): Promise<void> {
+    const now = Date.now();
+    const entries = await this.list();
+    const live = entries
+      .filter((e) => !this.isExpired(e, now))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    const stale = entries.filter((e) => this.isExpired(e, now)).concat(live.slice(this.limits.maxEntries));
+    await Promise.all(stale.map((e) => this.delete(e.ref)));
+  }
+
+  private isExpired(entry: ResumeEntry, now: number): boolean {
+    return now - entry.updatedAt > this.limits.ttl;
+  }
+}
+
+/**
+ * In-memory resume store. Positions are lost on reload — useful for tests,
+ * SSR, or environments where persistent storage is unavailable.
+ */
+export class MemoryResumeStore extends EvictingStore {
+  private entries = new Map<string, ResumeEntry>();
+
+  async list(): Promise<ResumeEntry[]> {
+    return [...this.entries.values()];
+  }
+
+  async delete(ref: string): Promise<void> {
+    this.entries.delete(ref);
+  }
+
+  protected async read(ref: string): Promise<ResumeEntry | null> {
+    return this.entries.get(ref) || null;
+  }
+
+  protected async write(entry: ResumeEntry): Promise<void> {
+    this.entries.set(entry.ref, entry);
+  }
+}
+
+/**
+ * localStorage resume store (the default).
+ * Uses `3speak_pos_${ref}` keys; values saved by older versions (plain seconds) are read and rewritten in the current format.
+ * Storage access errors (sandboxed iframes, disabled storage) are swallowed.
+ */
+export class LocalStorageResumeStore extends EvictingStore {
+  private prefix: string;
+
+  constructor(options?: ResumeStoreOptions & { prefix?: string }) {
+    super(options);
+    this.prefix = options?.prefix ?? '3speak_pos_';
+  }
+
+  async list(): Promise<ResumeEntry[]> {
+    const entries: ResumeEntry[] = [];
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(this.prefix)) continue;
+        const entry = this.parse(key.slice(this.prefix.length), localStorage.getItem(key));
+        if (entry) entries.push(entry);
+      }
+    } catch {}
+    return entries;
+  }
+
+  async delete(ref: string): Promise<void> {
+    try { localStorage.removeItem(this.prefix + ref); } catch {}
+  }
+
+  protected async read(ref: string): Promise<ResumeEntry | null> {
+    try {
+      return this.parse(ref, localStorage.getItem(this.prefix + ref));
+    } catch {
+      return null;
+    }
+  }
+
+  protected async write(entry: ResumeEntry): Promise<void> {
+    try {
+      localStorage.setItem(this.prefix + entry.ref, JSON.stringify({ time: entry.time, updatedAt: entry.updatedAt }));
+    } catch {}
+  }
+
+  private parse(ref: string, raw: string | null): ResumeEntry | null {
+    if (!raw) return null;
+    // Legacy format: plain seconds with no timestamp — stamp it once, so its TTL runs from the first read
+    if (/^[\d.]+$/.test(raw)) {
+      const entry = { ref, time: parseFloat(raw), updatedAt: Date.now() };
+      this.write(entry);
+      return entry;
+    }
+    try {
+      const { time, updatedAt } = JSON.parse(raw);
+      return typeof time === 'number' ? { ref, time, updatedAt: updatedAt || 0 } : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+const IDB_STORE = 'positions';
+
+/**
+ * IndexedDB resume store. Survives storage pressure better than localStorage
+ * and keeps writes off the main thread.
+ */
+export class IndexedDBResumeStore extends EvictingStore {
+  private dbName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(options?: ResumeStoreOptions & { dbName?: string }) {
+    super(options);
+    this.dbName = options?.dbName ?? '3speak-player';
+  }
+
+  async list(): Promise<ResumeEntry[]> {
+    return (await this.request('readonly', (store) => store.getAll())) || [];
+  }
+
+  async delete(ref: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(ref));
+  }
+
+  protected async read(ref: string): Promise<ResumeEntry | null> {
+    return (await this.request('readonly', (store) => store.get(ref))) || null;
+  }
+
+  protected async write(entry: ResumeEntry): Promise<void> {
+    await this.request('readwrite', (store) => store.put(entry));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.dbName, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE, { keyPath: 'ref' });
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T | undefined> {
+    try {
+      const db = await this.open();
+      return await new Promise<T>((resolve, reject) => {
+        const req = fn(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    } catch {
+      // Private mode / blocked storage — behave like an empty store
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import type { Thumbnail } from '../types';
+import { parseAttributes, resolveUrl } from './m3u8';
+
+interface ThumbnailCue extends Thumbnail {
+  start: number;
+  end: number;
+}
+
+/**
+ * Seek-preview thumbnail track.
+ *
+ * Accepts either a WebVTT thumbnail track (`sprite.jpg#xywh=x,y,w,h` cues) or an
+ * HLS playlist: a master containing `#EXT-X-IMAGE-STREAM-INF`, or an image media
+ * playlist using `#EXT-X-TILES`. A regular master without image streams yields an
+ * empty track.
+ *
+ * Nothing is fetched until the first lookup (or an explicit load()), and sprite
+ * images are decoded once and cached so scrubbing stays cheap.
+ */
+export class ThumbnailTrack {
+  private url: string;
+  private debug: boolean;
+  private cues: ThumbnailCue[] = [];
+  private loading: Promise<boolean> | null = null;
+  private images = new Map<string, HTMLImageElement>();
+
+  constructor(url: string, debug = false) {
+    this.url = url;
+    this.debug = debug;
+  }
+
+  private log(...args: unknown[]) {
+    if (this.debug) console.log('[3Speak Thumbnails]', ...args);
+  }
+
+  /** Whether the track has been fetched and contains at least one cue */
+  get available(): boolean {
+    return this.cues.length > 0;
+  }
+
+  /**
+   * Fetch and parse the track. Safe to call repeatedly — the request is shared.
+   * @returns true if any thumbnails were found
+   */
+  load(): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = this.fetchCues()
+        .then((cues) => {
+          this.cues = cues.sort((a, b) => a.start - b.start);
+          this.log(`Loaded ${cues.length} thumbnails from`, this.url.substring(0, 80));
+          return cues.length > 0;
+        })
+        .catch(() => false);
+    }
+    return this.loading;
+  }
+
+  /**
+   * Get the sprite region for a time. Triggers a lazy load on first call and
+   * returns null until the track is available.
+   */
+  getAt(time: number): Thumbnail | null {
+    if (!this.loading) this.load();
+    if (this.cues.length === 0) return null;
+
+    // Binary search for the last cue starting at or before `time`
+    let lo = 0;
+    let hi = this.cues.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.cues[mid].start <= time) lo = mid;
+      else hi = mid - 1;
+    }
+
+    const cue = this.cues[lo];
+    this.preloadImage(cue.url);
+    // Warm the following sheet too — scrubbing usually moves forward
+    for (let i = lo + 1; i < this.cues.length; i++) {
+      if (this.cues[i].url !== cue.url) {
+        this.preloadImage(this.cues[i].url);
+        break;
+      }
+    }
+
+    return { url: cue.url, x: cue.x, y: cue.y, w: cue.w, h: cue.h };
+  }
+
+  private preloadImage(url: string): void {
+    if (this.images.has(url) || typeof Image === 'undefined') return;
+    const img = new Image();
+    img.decoding = 'async';
+    img.src = url;
+    this.images.set(url, img);
+  }
+
+  private async fetchCues(): Promise<ThumbnailCue[]> {
+    const text = await fetchText(this.url);
+
+    if (text.trimStart().startsWith('WEBVTT')) {
+      return parseVtt(text, this.url);
+    }
+
+    if (text.includes('#EXT-X-IMAGE-STREAM-INF')) {
+      const variant = pickImageStream(text, this.url);
+      if (!variant) return [];
+      this.log('Using image playlist:', variant.substring(0, 80));
+      return parseImagePlaylist(await fetchText(variant), variant);
+    }
+
+    if (text.includes('#EXT-X-TILES')) {
+      return parseImagePlaylist(text, this.url);
+    }
+
+    return [];
+  }
+}
+
+async function fetchText(url: string): Promise<string> {
+  const resp = await fetch(url, { mode: 'cors', credentials: 'omit' });
+  if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+  return resp.text();
+}
+
+/** Parse "hh:mm:ss.mmm" or "mm:ss.mmm" into seconds */
+function parseTimestamp(value: string): number {
+  const parts = value.trim().split(':').map(parseFloat);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function parseVtt(text: string, baseUrl: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const timing = lines[i].match(/^\s*([\d:.]+)\s*-->\s*([\d:.]+)/);
+    if (!timing) continue;
+
+    const payload = lines[i + 1]?.trim();
+    if (!payload) continue;
+    i++;
+
+    const [ref, fragment] = payload.split('#');
+    const xywh = fragment?.match(/xywh=(\d+),(\d+),(\d+),(\d+)/);
+    cues.push({
+      start: parseTimestamp(timing[1]),
+      end: parseTimestamp(timing[2]),
+      url: resolveUrl(ref, baseUrl),
+      x: xywh ? parseInt(xywh[1], 10) : 0,
+      y: xywh ? parseInt(xywh[2], 10) : 0,
+      w: xywh ? parseInt(xywh[3], 10) : 0,
+      h: xywh ? parseInt(xywh[4], 10) : 0,
+    });
+  }
+
+  return cues;
+}
+
+/** Pick the lowest-bandwidth image stream from a master playlist */
+function pickImageStream(text: string, baseUrl: string): string | null {
+  let best: { uri: string; bandwidth: number } | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.startsWith('#EXT-X-IMAGE-STREAM-INF:')) continue;
+    const attrs = parseAttributes(line.slice(line.indexOf(':') + 1));
+    if (!attrs.URI) continue;
+    const bandwidth = parseInt(attrs.BANDWIDTH || '0', 10);
+    if (!best || bandwidth < best.bandwidth) best = { uri: attrs.URI, bandwidth };
+  }
+
+  return best ? resolveUrl(best.uri, baseUrl) : null;
+}
+
+/** Expand an `#EXT-X-TILES` image media playlist into one cue per tile */
+function parseImagePlaylist(text: string, baseUrl: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+  let time = 0;
+  let segmentDuration = 0;
+  let tiles: { w: number; h: number; cols: number; rows: number; duration: number } | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXTINF:')) {
+      segmentDuration = parseFloat(line.slice(8));
+    } else if (line.startsWith('#EXT-X-TILES:')) {
+      const attrs = parseAttributes(line.slice(13));
+      const [w, h] = (attrs.RESOLUTION || '0x0').split('x').map(Number);
+      const [cols, rows] = (attrs.LAYOUT || '1x1').split('x').map(Number);
+      tiles = { w, h, cols, rows, duration: parseFloat(attrs.DURATION || '0') };
+    } else if (!line.startsWith('#')) {
+      const url = resolveUrl(line, baseUrl);
+      const layout = tiles || { w: 0, h: 0, cols: 1, rows: 1, duration: segmentDuration };
+      const tileDuration = layout.duration || segmentDuration / (layout.cols * layout.rows);
+      const count = tileDuration > 0
+        ? Math.min(layout.cols * layout.rows, Math.ceil(segmentDuration / tileDuration))
+        : 1;
+
+      for (let k = 0; k < count; k++) {
+        const start = time + k * tileDuration;
+        cues.push({
+          start,
+          end: Math.min(start + tileDuration, time + segmentDuration),
+          url,
+          x: (k % layout.cols) * layout.w,
+          y: Math.floor(k / layout.cols) * layout.h,
+          w: layout.w,
+          h: layout.h,
+        });
+      }
+
+      time += segmentDuration;
+      segmentDuration = 0;
+    }
+  }
+
+  return cues;
+}
@@ -0,0 +1,249 @@
+/**
+ * `<threespeak-player>` custom element for @mantequilla-soft/3speak-player
+ *
+ * A drop-in replacement for the 3Speak iframe embed: no bundler or framework
+ * needed. Importing this module (or loading dist/element.global.js, which
+ * bundles hls.js) registers the element.
+ *
+ * @example
+ * ```html
+ * <script src="https://unpkg.com/@mantequilla-soft/3speak-player/dist/element.global.js"></script>
+ *
+ * <threespeak-player ref="author/permlink" muted loop autopause resume controls></threespeak-player>
+ *
+ * <script>
+ *   const el = document.querySelector('threespeak-player');
+ *   el.addEventListener('ready', (e) => console.log('vertical?', e.detail.isVertical));
+ *   el.play();
+ * </script>
+ * ```
+ */
+import { Player, PLAYER_EVENTS } from './core/player';
+import type { PlayerConfig, PlayerState, VideoSource } from './types';
+
+/** Tag name the element is registered under */
+export const ELEMENT_TAG = 'threespeak-player';
+
+/** Attributes that update the running player */
+const LIVE_ATTRIBUTES = ['ref', 'src', 'fallbacks', 'poster', 'muted', 'loop', 'autopause', 'controls'];
+
+const STYLE = `
+:host { display: block; position: relative; aspect-ratio: 16 / 9; background: #000; overflow: hidden; }
+:host([hidden]) { display: none; }
+video { display: block; width: 100%; height: 100%; object-fit: contain; }
+`;
+
+// Lets the module be imported during SSR, where HTMLElement doesn't exist
+const BaseElement: typeof HTMLElement =
+  typeof HTMLElement !== 'undefined' ? HTMLElement : (class {} as unknown as typeof HTMLElement);
+
+/**
+ * `<threespeak-player>` — renders its own `<video>` in shadow DOM, driven by a Player.
+ *
+ * Attributes:
+ * - `ref` ("author/permlink") or `src` (HLS URL, with optional comma-separated `fallbacks`)
+ *   — changing either reloads the video
+ * - `poster`, `muted`, `loop`, `autopause`, `autoplay`, `controls` — applied live
+ * - `resume`, `record-views`, `audio-only`, `preferred-audio-language`, `api-base`, `debug`
+ *   — read when the element connects
+ *
+ * Every PlayerEvents event is dispatched on the element as a CustomEvent with the
+ * same name; `event.detail` carries the payload.
+ */
+export class ThreeSpeakPlayerElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return LIVE_ATTRIBUTES;
+  }
+
+  private _player: Player | null = null;
+  private _video: HTMLVideoElement | null = null;
+  private _unsubs: (() => void)[] = [];
+
+  /** The underlying Player (null while disconnected) */
+  get player(): Player | null {
+    return this._player;
+  }
+
+  /** Current player state (null while disconnected) */
+  get state(): PlayerState | null {
+    return this._player?.getState() ?? null;
+  }
+
+  get currentTime(): number {
+    return this._video?.currentTime ?? 0;
+  }
+
+  set currentTime(time: number) {
+    this.seek(time);
+  }
+
+  get duration(): number {
+    return this._video?.duration || 0;
+  }
+
+  get paused(): boolean {
+    return this._video?.paused ?? true;
+  }
+
+  play(): Promise<void> {
+    return this._player?.play() ?? Promise.resolve();
+  }
+
+  pause(): void {
+    this._player?.pause();
+  }
+
+  togglePlay(): void {
+    this._player?.togglePlay();
+  }
+
+  seek(time: number): void {
+    this._player?.seek(time);
+  }
+
+  seekToLive(): void {
+    this._player?.seekToLive();
+  }
+
+  /** Load a video without touching the `ref`/`src` attributes */
+  load(refOrSource: string | VideoSource): Promise<void> {
+    if (!this._player) return Promise.resolve();
+    return this._player.load(refOrSource).then(() => {});
+  }
+
+  connectedCallback(): void {
+    if (this._player) return;
+
+    if (!this._video) {
+      const root = this.shadowRoot || this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = STYLE;
+      this._video = document.createElement('video');
+      this._video.setAttribute('part', 'video');
+      root.append(style, this._video);
+    }
+
+    const player = new Player(this.readConfig());
+    this._player = player;
+    // Player events re-dispatched as DOM CustomEvents (detail = first argument)
+    this._unsubs = PLAYER_EVENTS.map((name) =>
+      player.on(name, (detail?: unknown) => {
+        this.dispatchEvent(new CustomEvent(name, { detail }));
+      }),
+    );
+    this._unsubs.push(player.on('ready', () => {
+      if (this.hasAttribute('autoplay')) player.play().catch(() => {});
+    }));
+
+    player.attach(this._video!);
+    this.applyVideoAttributes();
+    this.reload();
+  }
+
+  disconnectedCallback(): void {
+    this._unsubs.forEach((fn) => fn());
+    this._unsubs = [];
+    this._player?.destroy();
+    this._player = null;
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null): void {
+    const player = this._player;
+    if (!player || oldValue === value) return;
+
+    switch (name) {
+      case 'ref':
+      case 'src':
+      case 'fallbacks':
+        this.reload();
+        break;
+      case 'muted':
+        player.setMuted(value !== null);
+        break;
+      case 'loop':
+        player.setLoop(value !== null);
+        break;
+      case 'autopause':
+        if (value !== null) player.enableAutopause();
+        else player.disableAutopause();
+        break;
+      case 'poster':
+        if (value) this._video?.setAttribute('poster', value);
+        else this._video?.removeAttribute('poster');
+        break;
+      default:
+        this.applyVideoAttributes();
+    }
+  }
+
+  // ─── Private ───
+
+  private readConfig(): PlayerConfig {
+    const config: PlayerConfig = {
+      muted: this.hasAttribute('muted'),
+      loop: this.hasAttribute('loop'),
+      autopause: this.hasAttribute('autopause'),
+      resume: this.hasAttribute('resume'),
+      audioOnly: this.hasAttribute('audio-only'),
+      debug: this.hasAttribute('debug'),
+    };
+    const apiBase = this.getAttribute('api-base');
+    if (apiBase) config.apiBase = apiBase;
+    const language = this.getAttribute('preferred-audio-language');
+    if (language) config.preferredAudioLanguage = language;
+
+    // record-views, record-views="5" (seconds) or record-views="25%"
+    const recordViews = this.getAttribute('record-views');
+    if (recordViews !== null) {
+      const amount = parseFloat(recordViews);
+      config.recordViews = isNaN(amount)
+        ? true
+        : recordViews.trim().endsWith('%') ? { percent: amount } : { seconds: amount };
+    }
+    return config;
+  }
+
+  private applyVideoAttributes(): void {
+    const video = this._video;
+    if (!video) return;
+    video.controls = this.hasAttribute('controls');
+    // Without a poster attribute the source's thumbnail (set by the player) stays
+    const poster = this.getAttribute('poster');
+    if (poster) video.poster = poster;
+  }
+
+  /** Load whatever `ref` / `src` currently point at (ref wins) */
+  private reload(): void {
+    const player = this._player;
+    if (!player) return;
+
+    const ref = this.getAttribute('ref');
+    const src = this.getAttribute('src');
+    let source: string | VideoSource | null = null;
+    if (ref) {
+      source = ref;
+    } else if (src) {
+      const fallbacks = (this.getAttribute('fallbacks') || '')
+        .split(',')
+        .map((url) => url.trim())
+        .filter(Boolean);
+      source = { url: src, fallbacks, poster: this.getAttribute('poster') || undefined };
+    }
+    // Failures are dispatched as `error` events; superseded loads reject with ABORTED
+    if (source) player.load(source).catch(() => {});
+  }
+}
+
+/** Register `<threespeak-player>` (no-op if already defined or outside the browser) */
+export function defineThreeSpeakPlayer(tag = ELEMENT_TAG): void {
+  if (typeof customElements === 'undefined' || customElements.get(tag)) return;
+  customElements.define(tag, tag === ELEMENT_TAG ? ThreeSpeakPlayerElement : class extends ThreeSpeakPlayerElement {});
+}
+
+defineThreeSpeakPlayer();
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'threespeak-player': ThreeSpeakPlayerElement;
+  }
+}
@@ -6,21 +6,58 @@
  * Core:
  *   Player      — Single video player (attach to any <video> element)
  *   PlayerPool  — Manage multiple players (for feeds/shorts)
+ *   Playlist    — Queue with auto-advance, shuffle & repeat
+ *   FeedController — Viewport-driven activation for a PlayerPool
  *   ThreeSpeakApi — Fetch video metadata & HLS URLs
+ *   PlaybackAnalytics — Opt-in QoE metrics collector
+ *   createControls — Opt-in built-in controls UI
+ *   createKeyboardController — Opt-in keyboard shortcuts and ARIA announcements
+ *   createGestureController — Opt-in touch gestures for shorts feeds
  *   detectPlatform — iOS/Safari/HLS capability detection
  *
  * React:
- *   import { usePlayer, usePlayerPool } from '@mantequilla-soft/3speak-player/react';
+ *   import { usePlayer, usePlayerPool, usePlaylist } from '@mantequilla-soft/3speak-player/react';
  */
 
 // Core player
-export { Player } from './core/player';
+export { Player, PLAYER_EVENTS } from './core/player';
 
 // Multi-player pool
 export { PlayerPool } from './core/pool';
 
+// Viewport-driven feed
+export { FeedController } from './core/feed';
+
+// Playlist / queue
+export { Playlist } from './core/playlist';
+
+// Resume position storage
+export { LocalStorageResumeStore, IndexedDBResumeStore, MemoryResumeStore } from './core/resume';
+
+// CDN health / circuit breaker
+export { CdnManager, cdnManager } from './core/cdn';
+
+// Quality preference shared across players
+export { QualityPreference, qualityPreference } from './core/quality';
+
+// QoE analytics
+export { PlaybackAnalytics } from './core/analytics';
+
+// Built-in controls UI
+export { Controls, createControls } from './ui/controls';
+export { KeyboardController, createKeyboardController } from './ui/keyboard';
+export { GestureController, createGestureController } from './ui/gestures';
+
 // API client
 export { ThreeSpeakApi, metadataToSource } from './core/api';
+export { MetadataCache, metadataCache } from './core/cache';
+
+// HLS playlist parser
+export { parsePlaylist, parseMasterPlaylist, parseMediaPlaylist, fetchPlaylist } from './core/m3u8';
+
+// Errors
+export { PlayerError, PlayerErrorCode, isPlayerError } from './core/errors';
+export type { PlayerErrorOptions } from './core/errors';
 
 // Platform detection & autoplay probe
 export { detectPlatform, canAutoplay } from './core/platform';
@@ -29,11 +66,54 @@ export { detectPlatform, canAutoplay } from './core/platform';
 export type {
   VideoSource,
   VideoMetadata,
+  MetadataResult,
+  MetadataCacheOptions,
   PlayerConfig,
+  ControlsOptions,
+  ControlsLayout,
+  KeyboardOptions,
+  KeyboardAction,
+  GestureOptions,
+  GestureEvents,
+  LoadOptions,
+  LoadAbortReason,
   PlayerState,
   PlayerEvents,
   PlatformInfo,
   QualityLevel,
+  QualityPolicy,
+  LivePolicy,
+  HlsPlaylist,
+  HlsMasterPlaylist,
+  HlsMediaPlaylist,
+  HlsVariant,
+  HlsRendition,
+  HlsSegment,
+  AudioTrackInfo,
+  Thumbnail,
+  TextTrackSource,
+  TextTrackInfo,
+  TextCue,
+  ViewRecordingRule,
+  ResumeEntry,
+  ResumeStore,
+  ResumeStoreOptions,
+  RetryPolicy,
+  CdnConfig,
+  CdnHostHealth,
+  PlaybackSession,
+  AnalyticsConfig,
+  PlaylistItem,
+  PlaylistOptions,
+  PlaylistEvents,
+  FeedOptions,
+  PlayerPoolOptions,
+  PoolSlot,
+  PoolSettings,
+  PlayerPoolEvents,
+  PooledPlayerEvents,
+  FeedEvents,
+  RepeatMode,
   EventHandler,
   EventUnsubscribe,
 } from './types';
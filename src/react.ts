@@ -20,7 +20,18 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
 import { Player } from './core/player';
 import { PlayerPool } from './core/pool';
-import type { PlayerConfig, PlayerState, PlayerEvents, VideoSource } from './types';
+import { Playlist } from './core/playlist';
+import type {
+  PlayerConfig,
+  PlayerState,
+  PlayerEvents,
+  VideoSource,
+  PlaylistItem,
+  PlaylistOptions,
+  PlaylistEvents,
+  RepeatMode,
+  PoolSettings,
+} from './types';
 
 // ─── usePlayer ───
 
@@ -58,11 +69,18 @@ export interface UsePlayerReturn {
   toggleFullscreen: () => Promise<void>;
   setQuality: (index: number) => void;
   getQualities: () => import('./types').QualityLevel[];
+  getAudioTracks: () => import('./types').AudioTrackInfo[];
+  setAudioTrack: (index: number) => void;
+  getThumbnailAt: (time: number) => import('./types').Thumbnail | null;
+  loadThumbnails: () => Promise<boolean>;
+  getTextTracks: () => import('./types').TextTrackInfo[];
+  setTextTrack: (id: string | null) => void;
   setAudioOnly: (enabled: boolean) => void;
   enableAutopause: () => void;
   disableAutopause: () => void;
   setPlaybackRate: (rate: number) => void;
-  clearResumePosition: (ref?: string) => void;
+  seekToLive: () => void;
+  clearResumePosition: (ref?: string) => Promise<void>;
 }
 
 const EMPTY_STATE: PlayerState = {
@@ -81,6 +99,11 @@ const EMPTY_STATE: PlayerState = {
   fullscreen: false,
   audioOnly: false,
   playbackRate: 1,
+  textTrack: null,
+  isLive: false,
+  liveEdge: null,
+  latency: null,
+  dvrWindow: null,
 };
 
 /**
@@ -150,6 +173,13 @@ export function usePlayer(options: UsePlayerOptions = {}): UsePlayerReturn {
       setState(s => ({ ...s, playbackRate: rate }));
     }));
 
+    unsubs.push(player.on('texttrackchange', (id) => {
+      setState(s => ({ ...s, textTrack: id }));
+    }));
+
+    unsubs.push(player.on('live', () => setState(player.getState())));
+    unsubs.push(player.on('behindlive', () => setState(player.getState())));
+
     return () => unsubs.forEach(fn => fn());
   }, [player, autoPlay]);
 
@@ -160,7 +190,8 @@ export function usePlayer(options: UsePlayerOptions = {}): UsePlayerReturn {
 
       // Auto-load if specified
       if (autoLoad) {
-        player.load(autoLoad as any);
+        // Failures surface through the error event; superseded loads reject with ABORTED
+        player.load(autoLoad).catch(() => {});
       }
     }
   }, [player, autoLoad]);
@@ -177,7 +208,7 @@ export function usePlayer(options: UsePlayerOptions = {}): UsePlayerReturn {
     ref,
     state,
     player,
-    load: useCallback(async (refOrSource) => { await player.load(refOrSource as any); }, [player]),
+    load: useCallback(async (refOrSource) => { await player.load(refOrSource); }, [player]),
     play: useCallback(() => player.play(), [player]),
     pause: useCallback(() => player.pause(), [player]),
     togglePlay: useCallback(() => player.togglePlay(), [player]),
@@ -189,10 +220,17 @@ export function usePlayer(options: UsePlayerOptions = {}): UsePlayerReturn {
     toggleFullscreen: useCallback(() => player.toggleFullscreen(), [player]),
     setQuality: useCallback((index: number) => player.setQuality(index), [player]),
     getQualities: useCallback(() => player.getQualities(), [player]),
+    getAudioTracks: useCallback(() => player.getAudioTracks(), [player]),
+    setAudioTrack: useCallback((index: number) => player.setAudioTrack(index), [player]),
+    getThumbnailAt: useCallback((time: number) => player.getThumbnailAt(time), [player]),
+    loadThumbnails: useCallback(() => player.loadThumbnails(), [player]),
+    getTextTracks: useCallback(() => player.getTextTracks(), [player]),
+    setTextTrack: useCallback((id: string | null) => player.setTextTrack(id), [player]),
     setAudioOnly: useCallback((enabled: boolean) => player.setAudioOnly(enabled), [player]),
     enableAutopause: useCallback(() => player.enableAutopause(), [player]),
     disableAutopause: useCallback(() => player.disableAutopause(), [player]),
     setPlaybackRate: useCallback((rate: number) => player.setPlaybackRate(rate), [player]),
+    seekToLive: useCallback(() => player.seekToLive(), [player]),
     clearResumePosition: useCallback((ref?: string) => player.clearResumePosition(ref), [player]),
   };
 }
@@ -204,12 +242,20 @@ export interface UsePlayerPoolOptions extends PlayerConfig {}
 export interface UsePlayerPoolReturn {
   /** The underlying PlayerPool instance */
   pool: PlayerPool;
+  /** Ids of the players in the pool (reactive) */
+  ids: string[];
+  /** Id of the active player (reactive) */
+  activeId: string | null;
+  /** Shared settings applied to every player (reactive) */
+  settings: PoolSettings;
+  /** Change shared settings for current and future players */
+  updateSettings: (changes: Partial<PoolSettings>) => void;
   /** Add a player to the pool */
   add: (id: string, element: HTMLVideoElement, source?: VideoSource) => Player;
   /** Remove a player */
   remove: (id: string) => void;
-  /** Activate a player (play it, pause others) */
-  activate: (id: string) => void;
+  /** Activate a player (play it, pause others); rejects when play() is blocked, e.g. by autoplay policy */
+  activate: (id: string) => Promise<void>;
   /** Pause all */
   pauseAll: () => void;
   /** Set muted on all */
@@ -224,7 +270,7 @@ export interface UsePlayerPoolReturn {
 
 /**
  * React hook for managing a pool of 3Speak video players.
- * Ideal for shorts/feed UIs.
+ * Ideal for shorts/feed UIs. `ids`, `activeId` and `settings` re-render on pool events.
  */
 export function usePlayerPool(options: UsePlayerPoolOptions = {}): UsePlayerPoolReturn {
   const poolRef = useRef<PlayerPool | null>(null);
@@ -233,9 +279,20 @@ export function usePlayerPool(options: UsePlayerPoolOptions = {}): UsePlayerPool
     poolRef.current = new PlayerPool(options);
   }
   const pool = poolRef.current;
+  const snapshot = () => ({ ids: pool.ids, activeId: pool.activePlayerId, settings: pool.settings });
+  const [poolState, setPoolState] = useState(snapshot);
 
   useEffect(() => {
+    const refresh = () => setPoolState(snapshot());
+    const unsubs = [
+      pool.on('playeradded', refresh),
+      pool.on('playerremoved', refresh),
+      pool.on('activechange', refresh),
+      pool.on('settingschange', refresh),
+    ];
+    refresh();
     return () => {
+      unsubs.forEach((fn) => fn());
       poolRef.current?.destroy();
       poolRef.current = null;
     };
@@ -243,6 +300,8 @@ export function usePlayerPool(options: UsePlayerPoolOptions = {}): UsePlayerPool
 
   return {
     pool,
+    ...poolState,
+    updateSettings: useCallback((changes) => pool.updateSettings(changes), [pool]),
     add: useCallback((id, el, src) => pool.add(id, el, src), [pool]),
     remove: useCallback((id) => pool.remove(id), [pool]),
     activate: useCallback((id) => pool.activate(id), [pool]),
@@ -253,3 +312,119 @@ export function usePlayerPool(options: UsePlayerPoolOptions = {}): UsePlayerPool
     prefetch: useCallback((url) => pool.prefetch(url), [pool]),
   };
 }
+
+// ─── usePlaylist ───
+
+export interface UsePlaylistOptions extends PlaylistOptions {
+  /** Event callbacks */
+  onItemChange?: PlaylistEvents['itemchange'];
+  onQueueEnd?: PlaylistEvents['queueend'];
+}
+
+export interface UsePlaylistReturn {
+  /** The underlying Playlist instance */
+  playlist: Playlist;
+  /** Current item index in the original list (-1 if none) */
+  index: number;
+  /** Current item (undefined if none) */
+  item: PlaylistItem | undefined;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  next: () => Promise<boolean>;
+  previous: () => Promise<boolean>;
+  jumpTo: (index: number) => Promise<void>;
+  setShuffle: (enabled: boolean) => void;
+  setRepeat: (mode: RepeatMode) => void;
+}
+
+/**
+ * React hook for a playlist driving a player from usePlayer().
+ * The queue is replaced whenever the refs/URLs in `items` change.
+ *
+ * @example
+ * ```tsx
+ * const { ref, player } = usePlayer({ muted: true });
+ * const { index, next, previous, jumpTo } = usePlaylist(player, refs, { repeat: 'all' });
+ * useEffect(() => { jumpTo(0); }, [jumpTo]);
+ * ```
+ */
+export function usePlaylist(
+  player: Player,
+  items: PlaylistItem[],
+  options: UsePlaylistOptions = {},
+): UsePlaylistReturn {
+  const { onItemChange, onQueueEnd, ...playlistOptions } = options;
+
+  const playlistRef = useRef<Playlist | null>(null);
+  const playerRef = useRef<Player | null>(null);
+
+  // Stable refs for callbacks
+  const callbackRefs = useRef({ onItemChange, onQueueEnd });
+  callbackRefs.current = { onItemChange, onQueueEnd };
+
+  // Create playlist once per player. It only subscribes to the player once it loads an item,
+  // so instances from discarded renders (StrictMode) hold nothing; the effect below destroys the rest
+  if (!playlistRef.current || playerRef.current !== player) {
+    playlistRef.current = new Playlist(player, items, playlistOptions);
+    playerRef.current = player;
+  }
+  const playlist = playlistRef.current;
+
+  const snapshot = () => ({
+    index: playlist.currentIndex,
+    item: playlist.currentItem,
+    shuffle: playlist.shuffle,
+    repeat: playlist.repeat,
+    hasNext: playlist.hasNext,
+    hasPrevious: playlist.hasPrevious,
+  });
+  const [state, setState] = useState(snapshot);
+
+  // Replace the queue when its contents (not just its identity) change
+  const itemsKey = items.map((item) => (typeof item === 'string' ? item : item.url)).join('\n');
+  const firstRun = useRef(true);
+  useEffect(() => {
+    if (firstRun.current) {
+      firstRun.current = false;
+      return;
+    }
+    playlist.setItems(items);
+    setState(snapshot());
+  }, [playlist, itemsKey]);
+
+  useEffect(() => {
+    const unsubs: (() => void)[] = [];
+
+    unsubs.push(playlist.on('itemchange', (info) => {
+      setState(snapshot());
+      callbackRefs.current.onItemChange?.(info);
+    }));
+
+    unsubs.push(playlist.on('queueend', () => {
+      callbackRefs.current.onQueueEnd?.();
+    }));
+
+    return () => {
+      unsubs.forEach(fn => fn());
+      playlist.destroy();
+    };
+  }, [playlist]);
+
+  return {
+    playlist,
+    ...state,
+    next: useCallback(() => playlist.next(), [playlist]),
+    previous: useCallback(() => playlist.previous(), [playlist]),
+    jumpTo: useCallback((index: number) => playlist.jumpTo(index), [playlist]),
+    setShuffle: useCallback((enabled: boolean) => {
+      playlist.setShuffle(enabled);
+      setState(snapshot());
+    }, [playlist]),
+    setRepeat: useCallback((mode: RepeatMode) => {
+      playlist.setRepeat(mode);
+      setState(snapshot());
+    }, [playlist]),
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Svelte adapter for @mantequilla-soft/3speak-player
+ *
+ * Stores follow the Svelte store contract (`subscribe` returning an unsubscriber),
+ * so they work with `$store` auto-subscriptions without depending on the Svelte runtime.
+ *
+ * @example
+ * ```svelte
+ * <script>
+ *   import { onDestroy } from 'svelte';
+ *   import { createPlayerStore } from '@mantequilla-soft/3speak-player/svelte';
+ *
+ *   export let videoRef = 'author/permlink';
+ *   const player = createPlayerStore({ muted: true, loop: true, autoPlay: true });
+ *   onDestroy(player.destroy);
+ * </script>
+ *
+ * <video use:player.attach={videoRef} playsinline on:click={player.togglePlay} />
+ * <p>{$player.currentTime.toFixed(0)}s {$player.loading ? '(loading)' : ''}</p>
+ * ```
+ */
+import { Player } from './core/player';
+import { PlayerPool } from './core/pool';
+import type { PlayerConfig, PlayerState, VideoSource } from './types';
+
+/** Svelte store contract */
+export interface Readable<T> {
+  subscribe(run: (value: T) => void): () => void;
+}
+
+/** Svelte action contract */
+export interface ActionReturn<P> {
+  update?: (parameter: P) => void;
+  destroy?: () => void;
+}
+
+/** Minimal writable store — notifies subscribers synchronously, skips identical values */
+function createStore<T>(initial: T) {
+  let value = initial;
+  const subscribers = new Set<(value: T) => void>();
+  return {
+    subscribe(run: (value: T) => void): () => void {
+      subscribers.add(run);
+      run(value);
+      return () => subscribers.delete(run);
+    },
+    set(next: T): void {
+      if (next === value) return;
+      value = next;
+      subscribers.forEach((run) => run(value));
+    },
+    get: () => value,
+  };
+}
+
+const EMPTY_STATE: PlayerState = {
+  currentTime: 0,
+  duration: 0,
+  paused: true,
+  muted: true,
+  volume: 1,
+  ready: false,
+  loading: false,
+  isVertical: null,
+  videoWidth: 0,
+  videoHeight: 0,
+  buffered: 0,
+  pip: false,
+  fullscreen: false,
+  audioOnly: false,
+  playbackRate: 1,
+  textTrack: null,
+  isLive: false,
+  liveEdge: null,
+  latency: null,
+  dvrWindow: null,
+};
+
+/** Identity of a source for change detection */
+function sourceKey(source: string | VideoSource | null | undefined): string | null {
+  if (!source) return null;
+  return typeof source === 'string' ? source.replace(/^@/, '') : source.url;
+}
+
+// ─── createPlayerStore ───
+
+export interface PlayerStoreOptions extends PlayerConfig {
+  /** Auto-play after ready */
+  autoPlay?: boolean;
+}
+
+export interface PlayerStore extends Readable<PlayerState> {
+  /** The underlying Player instance */
+  player: Player;
+  /**
+   * Action: `<video use:store.attach={source}>`. Attaches the player and loads
+   * `source` ("author/permlink" or a VideoSource); reloads when it changes.
+   */
+  attach: (node: HTMLVideoElement, source?: string | VideoSource | null) => ActionReturn<string | VideoSource | null | undefined>;
+  /** Load a video */
+  load: (refOrSource: string | VideoSource) => Promise<void>;
+  play: () => Promise<void>;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (time: number) => void;
+  setMuted: (muted: boolean) => void;
+  setVolume: (volume: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  seekToLive: () => void;
+  setAudioOnly: (enabled: boolean) => void;
+  setTextTrack: (id: string | null) => void;
+  /** Destroy the player (call from onDestroy) */
+  destroy: () => void;
+}
+
+/**
+ * Readable `PlayerState` store backed by a Player.
+ * State refreshes on timeupdate, ready, play/pause, loading and other player events.
+ */
+export function createPlayerStore(options: PlayerStoreOptions = {}): PlayerStore {
+  const { autoPlay, ...config } = options;
+  const player = new Player(config);
+  const store = createStore<PlayerState>(EMPTY_STATE);
+  const refresh = () => store.set(player.getState());
+
+  const unsubs = [
+    player.on('ready', () => {
+      refresh();
+      if (autoPlay) player.play().catch(() => {});
+    }),
+    player.on('timeupdate', refresh),
+    player.on('play', refresh),
+    player.on('pause', refresh),
+    player.on('volumechange', refresh),
+    player.on('loading', refresh),
+    player.on('resize', refresh),
+    player.on('buffered', refresh),
+    player.on('ratechange', refresh),
+    player.on('pip', refresh),
+    player.on('fullscreen', refresh),
+    player.on('texttrackchange', refresh),
+    player.on('live', refresh),
+    player.on('behindlive', refresh),
+  ];
+
+  const load = (source: string | VideoSource | null | undefined) => {
+    // Failures surface through the error event; superseded loads reject with ABORTED
+    if (source) player.load(source).catch(() => {});
+  };
+
+  return {
+    subscribe: store.subscribe,
+    player,
+    attach(node, source) {
+      let key = sourceKey(source);
+      player.attach(node);
+      load(source);
+      return {
+        update(next) {
+          const nextKey = sourceKey(next);
+          if (nextKey === key) return;
+          key = nextKey;
+          load(next);
+        },
+        destroy() {
+          if (player.element === node) player.detach();
+          store.set(EMPTY_STATE);
+        },
+      };
+    },
+    load: async (refOrSource) => { await player.load(refOrSource); },
+    play: () => player.play(),
+    pause: () => player.pause(),
+    togglePlay: () => player.togglePlay(),
+    seek: (time) => player.seek(time),
+    setMuted: (muted) => player.setMuted(muted),
+    setVolume: (volume) => player.setVolume(volume),
+    setPlaybackRate: (rate) => player.setPlaybackRate(rate),
+    seekToLive: () => player.seekToLive(),
+    setAudioOnly: (enabled) => {
+      player.setAudioOnly(enabled);
+      refresh();
+    },
+    setTextTrack: (id) => player.setTextTrack(id),
+    destroy: () => {
+      unsubs.forEach((fn) => fn());
+      player.destroy();
+    },
+  };
+}
+
+// ─── createPlayerPoolStore ───
+
+/** Snapshot published by a pool store */
+export interface PlayerPoolState {
+  /** Ids of the players in the pool */
+  ids: string[];
+  /** Id of the active player, if any */
+  activeId: string | null;
+}
+
+/** Parameter for the pool's `attach` action */
+export interface PoolAttachParams {
+  id: string;
+  /** "author/permlink" or a VideoSource */
+  source?: string | VideoSource | null;
+}
+
+export interface PlayerPoolStore extends Readable<PlayerPoolState> {
+  /** The underlying PlayerPool instance */
+  pool: PlayerPool;
+  /**
+   * Action: `<video use:pool.attach={{ id, source }}>`. Adds a pooled player for
+   * the element and removes it when the element is destroyed.
+   */
+  attach: (node: HTMLVideoElement, params: PoolAttachParams) => ActionReturn<PoolAttachParams>;
+  /** Activate a player (play it, pause others); rejects when play() is blocked, e.g. by autoplay policy */
+  activate: (id: string) => Promise<void>;
+  /** Remove a player */
+  remove: (id: string) => void;
+  /** Keep only these ids, destroy rest */
+  retainOnly: (ids: string[]) => void;
+  pauseAll: () => void;
+  setAllMuted: (muted: boolean) => void;
+  setAllLoop: (loop: boolean) => void;
+  /** Prefetch an HLS manifest */
+  prefetch: (hlsUrl: string) => Promise<void>;
+  /** Prefetch a manifest by "author/permlink" */
+  prefetchByRef: (ref: string) => Promise<void>;
+  /** Destroy every player (call from onDestroy) */
+  destroy: () => void;
+}
+
+/**
+ * Store wrapping a PlayerPool for shorts/feed UIs.
+ * Publishes the pool's ids and active id on pool events, so changes made through
+ * `pool` directly (or a FeedController) reach subscribers too; use `pool.get(id)`
+ * for a player's own state.
+ */
+export function createPlayerPoolStore(config: PlayerConfig = {}): PlayerPoolStore {
+  const pool = new PlayerPool(config);
+  const store = createStore<PlayerPoolState>({ ids: [], activeId: null });
+  const refresh = () => {
+    const current = store.get();
+    const ids = pool.ids;
+    const activeId = pool.activePlayerId;
+    if (activeId === current.activeId && ids.join('\n') === current.ids.join('\n')) return;
+    store.set({ ids, activeId });
+  };
+  pool.on('playeradded', refresh);
+  pool.on('playerremoved', refresh);
+  pool.on('activechange', refresh);
+
+  const add = (node: HTMLVideoElement, { id, source }: PoolAttachParams) => {
+    if (typeof source === 'string') {
+      const [author, permlink] = source.replace(/^@/, '').split('/');
+      pool.addByRef(id, node, author, permlink).catch(() => {});
+    } else {
+      pool.add(id, node, source || undefined);
+    }
+  };
+
+  return {
+    subscribe: store.subscribe,
+    pool,
+    attach(node, params) {
+      let current = params;
+      add(node, current);
+      return {
+        update(next) {
+          if (next.id === current.id && sourceKey(next.source) === sourceKey(current.source)) return;
+          if (next.id !== current.id) pool.remove(current.id);
+          current = next;
+          add(node, current);
+        },
+        destroy() {
+          if (pool.get(current.id)?.element === node) pool.remove(current.id);
+        },
+      };
+    },
+    activate: (id) => pool.activate(id),
+    remove: (id) => pool.remove(id),
+    retainOnly: (ids) => pool.retainOnly(ids),
+    pauseAll: () => pool.pauseAll(),
+    setAllMuted: (muted) => pool.setAllMuted(muted),
+    setAllLoop: (loop) => pool.setAllLoop(loop),
+    prefetch: (url) => pool.prefetch(url),
+    prefetchByRef: (ref) => {
+      const [author, permlink] = ref.replace(/^@/, '').split('/');
+      return pool.prefetchByRef(author, permlink);
+    },
+    destroy: () => {
+      pool.destroy();
+      refresh();
+    },
+  };
+}
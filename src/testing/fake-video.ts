@@ -0,0 +1,394 @@
+export interface FakeVideoOptions {
+  /** Duration reported once metadata loads, in seconds (default: 60) */
+  duration?: number;
+  /** Intrinsic size reported once metadata loads (default: 1280x720) */
+  width?: number;
+  height?: number;
+  /** Fire loadedmetadata/loadeddata/canplay automatically after `src` is set (default: true) */
+  autoLoad?: boolean;
+  /** Let play() succeed; false rejects like a blocked autoplay (default: true) */
+  allowPlay?: boolean;
+}
+
+/** TimeRanges over a list of [start, end] pairs */
+class FakeTimeRanges {
+  constructor(private ranges: [number, number][] = []) {}
+
+  get length(): number {
+    return this.ranges.length;
+  }
+
+  start(index: number): number {
+    return this.ranges[index][0];
+  }
+
+  end(index: number): number {
+    return this.ranges[index][1];
+  }
+}
+
+/** TextTrack behind an appended `<track>` (jsdom doesn't implement HTMLTrackElement.track) */
+class FakeTextTrack extends EventTarget {
+  mode: TextTrackMode = 'disabled';
+  readonly activeCues = null;
+  readonly cues = null;
+
+  constructor(
+    readonly id: string,
+    readonly kind: string,
+    readonly label: string,
+    readonly language: string,
+  ) {
+    super();
+  }
+}
+
+/** TextTrackList over the element's `<track>` children */
+class FakeTextTrackList extends EventTarget {
+  constructor(private tracks: () => TextTrack[]) {
+    super();
+  }
+
+  get length(): number {
+    return this.tracks().length;
+  }
+
+  getTrackById(id: string): TextTrack | null {
+    return this.tracks().find((t) => t.id === id) ?? null;
+  }
+
+  [Symbol.iterator](): Iterator<TextTrack> {
+    return this.tracks()[Symbol.iterator]();
+  }
+}
+
+/**
+ * Scriptable stand-in for HTMLVideoElement.
+ *
+ * Implements the parts of the media element the player uses, and lets a test
+ * drive playback: `loadMetadata()`, `advance(seconds)`, `stall()`, `end()`,
+ * `fail(code)`. Events are dispatched synchronously, so assertions can follow
+ * a call directly (automatic metadata after `src` is set waits one microtask —
+ * `await` anything, e.g. `await flushPromises()`).
+ *
+ * Needs a `document` (jsdom / happy-dom) only when the player adds sidecar
+ * `<track>` elements.
+ *
+ * @example
+ * ```ts
+ * const video = new FakeVideoElement({ duration: 30 });
+ * player.attach(video.asVideo());
+ * await player.load(source);
+ * await flushPromises();
+ * await player.play();
+ * video.advance(10); // ten seconds of timeupdate events
+ * ```
+ */
+export class FakeVideoElement extends EventTarget {
+  /** Every value assigned to `src`, in order (handy for fallback assertions) */
+  readonly srcHistory: string[] = [];
+  readonly textTracks = new FakeTextTrackList(() =>
+    Array.from(this.querySelectorAll('track'), (el) => (el as HTMLTrackElement).track),
+  );
+  readonly style: Record<string, string> = {};
+
+  duration = NaN;
+  videoWidth = 0;
+  videoHeight = 0;
+  readyState = 0;
+  networkState = 0;
+  paused = true;
+  ended = false;
+  seeking = false;
+  loop = false;
+  muted = false;
+  autoplay = false;
+  playsInline = false;
+  poster = '';
+  preload = '';
+  crossOrigin: string | null = null;
+  error: { code: number; message: string } | null = null;
+  buffered = new FakeTimeRanges();
+  seekable = new FakeTimeRanges();
+  droppedFrames = 0;
+
+  private options: Required<FakeVideoOptions>;
+  private attributes = new Map<string, string>();
+  private _src = '';
+  private _currentTime = 0;
+  private _volume = 1;
+  private _playbackRate = 1;
+  private container: HTMLElement | null = typeof document !== 'undefined' ? document.createElement('div') : null;
+
+  constructor(options: FakeVideoOptions = {}) {
+    super();
+    this.options = {
+      duration: 60,
+      width: 1280,
+      height: 720,
+      autoLoad: true,
+      allowPlay: true,
+      ...options,
+    };
+  }
+
+  /** This element typed as HTMLVideoElement, for Player.attach() / PlayerPool.add() */
+  asVideo(): HTMLVideoElement {
+    return this as unknown as HTMLVideoElement;
+  }
+
+  // ─── HTMLMediaElement surface ───
+
+  get src(): string {
+    return this._src;
+  }
+
+  set src(value: string) {
+    this._src = value;
+    this.reset();
+    if (!value) return;
+    this.srcHistory.push(value);
+    this.dispatch('loadstart');
+    if (this.options.autoLoad) {
+      Promise.resolve().then(() => {
+        if (this._src === value && this.readyState === 0 && !this.error) this.loadMetadata();
+      });
+    }
+  }
+
+  get currentSrc(): string {
+    return this._src;
+  }
+
+  get currentTime(): number {
+    return this._currentTime;
+  }
+
+  set currentTime(time: number) {
+    const max = isFinite(this.duration) ? this.duration : Infinity;
+    this._currentTime = Math.max(0, Math.min(time, max));
+    this.ended = false;
+    this.seeking = true;
+    this.dispatch('seeking');
+    this.seeking = false;
+    this.dispatch('timeupdate');
+    this.dispatch('seeked');
+  }
+
+  get volume(): number {
+    return this._volume;
+  }
+
+  set volume(volume: number) {
+    this._volume = volume;
+    this.dispatch('volumechange');
+  }
+
+  get playbackRate(): number {
+    return this._playbackRate;
+  }
+
+  set playbackRate(rate: number) {
+    this._playbackRate = rate;
+    this.dispatch('ratechange');
+  }
+
+  play(): Promise<void> {
+    if (!this.options.allowPlay) {
+      return Promise.reject(new DOMException('play() failed because the user didn\'t interact with the document first.', 'NotAllowedError'));
+    }
+    if (this.paused) {
+      if (this.ended) this._currentTime = 0;
+      this.paused = false;
+      this.ended = false;
+      this.dispatch('play');
+      if (this.readyState >= 3) this.dispatch('playing');
+    }
+    return Promise.resolve();
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.dispatch('pause');
+  }
+
+  load(): void {
+    const src = this._src;
+    this.reset();
+    if (src && this.options.autoLoad) {
+      Promise.resolve().then(() => {
+        if (this._src === src && this.readyState === 0) this.loadMetadata();
+      });
+    }
+  }
+
+  canPlayType(type: string): CanPlayTypeResult {
+    return /mpegurl|mp4|webm/i.test(type) ? 'maybe' : '';
+  }
+
+  getVideoPlaybackQuality(): { droppedVideoFrames: number; totalVideoFrames: number } {
+    return { droppedVideoFrames: this.droppedFrames, totalVideoFrames: Math.round(this._currentTime * 30) };
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.attributes.set(name, value);
+    if (name === 'src') this.src = value;
+  }
+
+  getAttribute(name: string): string | null {
+    if (name === 'src') return this._src || null;
+    return this.attributes.get(name) ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.getAttribute(name) !== null;
+  }
+
+  removeAttribute(name: string): void {
+    this.attributes.delete(name);
+    if (name === 'src') {
+      this._src = '';
+      this.reset();
+    }
+  }
+
+  appendChild<T extends Node>(node: T): T {
+    if (node.nodeName === 'TRACK' && !(node as unknown as HTMLTrackElement).track) {
+      const el = node as unknown as HTMLTrackElement;
+      Object.defineProperty(el, 'track', { value: new FakeTextTrack(el.id, el.kind, el.label, el.srclang) });
+    }
+    return this.container ? this.container.appendChild(node) : node;
+  }
+
+  querySelectorAll(selector: string): NodeListOf<Element> | Element[] {
+    return this.container ? this.container.querySelectorAll(selector) : [];
+  }
+
+  // ─── Scripting ───
+
+  /** Report metadata (defaults from the constructor options) and become playable */
+  loadMetadata(info: { duration?: number; width?: number; height?: number } = {}): void {
+    this.duration = info.duration ?? this.options.duration;
+    this.seekable = new FakeTimeRanges(isFinite(this.duration) ? [[0, this.duration]] : []);
+    this.videoWidth = info.width ?? this.options.width;
+    this.videoHeight = info.height ?? this.options.height;
+    this.error = null;
+    this.readyState = 1;
+    this.dispatch('durationchange');
+    this.dispatch('loadedmetadata');
+    this.readyState = 2;
+    this.dispatch('loadeddata');
+    this.readyState = 4;
+    this.dispatch('canplay');
+    this.dispatch('canplaythrough');
+    if (!this.paused) this.dispatch('playing');
+  }
+
+  /**
+   * Play forward by `seconds` in `step`-sized ticks, firing timeupdate on each.
+   * Stops at the end: loops if `loop` is set, otherwise fires pause + ended.
+   * Does nothing while paused or before metadata.
+   */
+  advance(seconds: number, step = 0.25): void {
+    if (this.paused || this.readyState < 2) return;
+    let remaining = seconds;
+    while (remaining > 0 && !this.paused) {
+      const tick = Math.min(step, remaining) * this._playbackRate;
+      remaining -= step;
+      const next = this._currentTime + tick;
+      if (next >= this.duration) {
+        this._currentTime = this.duration;
+        this.dispatch('timeupdate');
+        this.finish();
+        if (!this.loop) return;
+        continue;
+      }
+      this._currentTime = next;
+      this.dispatch('timeupdate');
+    }
+  }
+
+  /** Set the buffered range end (seconds) and fire progress */
+  setBuffered(end: number, start = 0): void {
+    this.buffered = new FakeTimeRanges([[start, end]]);
+    this.dispatch('progress');
+  }
+
+  /**
+   * Set the seekable range — the DVR window of a live stream (load it with
+   * `loadMetadata({ duration: Infinity })`).
+   */
+  setSeekable(start: number, end: number): void {
+    this.seekable = new FakeTimeRanges([[start, end]]);
+  }
+
+  /** Simulate a stall (waiting); call `recover()` to resume */
+  stall(): void {
+    this.readyState = 2;
+    this.dispatch('waiting');
+  }
+
+  /** End a stall started with `stall()` */
+  recover(): void {
+    this.readyState = 4;
+    this.dispatch('canplay');
+    if (!this.paused) this.dispatch('playing');
+  }
+
+  /** Jump to the end and finish playback */
+  end(): void {
+    if (isNaN(this.duration)) return;
+    this._currentTime = this.duration;
+    this.dispatch('timeupdate');
+    this.finish();
+  }
+
+  /**
+   * Fail with a MediaError code: 1 aborted, 2 network, 3 decode, 4 src not supported.
+   */
+  fail(code: 1 | 2 | 3 | 4 = 2, message = 'Fake media error'): void {
+    this.error = { code, message };
+    this.dispatch('error');
+  }
+
+  /** Fire any other media event (e.g. 'enterpictureinpicture') */
+  dispatch(type: string): void {
+    this.dispatchEvent(new Event(type));
+  }
+
+  // ─── Private ───
+
+  private finish(): void {
+    if (this.loop) {
+      this._currentTime = 0;
+      this.dispatch('seeked');
+      return;
+    }
+    this.paused = true;
+    this.ended = true;
+    this.dispatch('pause');
+    this.dispatch('ended');
+  }
+
+  private reset(): void {
+    this.duration = NaN;
+    this.videoWidth = 0;
+    this.videoHeight = 0;
+    this.readyState = 0;
+    this.error = null;
+    this.ended = false;
+    this._currentTime = 0;
+    this.buffered = new FakeTimeRanges();
+    this.seekable = new FakeTimeRanges();
+    if (!this.paused) {
+      this.paused = true;
+      this.dispatch('pause');
+    }
+  }
+}
+
+/** Resolve after pending microtasks and one macrotask (lets fake fetches and events settle) */
+export function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
@@ -0,0 +1,120 @@
+import type { PlayerConfig } from '../types';
+import { metadataCache } from '../core/cache';
+import { cdnManager } from '../core/cdn';
+import { qualityPreference } from '../core/quality';
+
+/** A variant in a generated master playlist */
+export interface FixtureLevel {
+  height: number;
+  width?: number;
+  /** Bits per second (default: derived from height) */
+  bandwidth?: number;
+  /** Variant playlist URI (default: `${height}p/index.m3u8`) */
+  uri?: string;
+}
+
+export interface MasterPlaylistOptions {
+  /** Variants, in the order they should appear (default: 360p, 720p, 1080p) */
+  levels?: FixtureLevel[];
+  /** Alternate audio renditions (EXT-X-MEDIA TYPE=AUDIO, group "audio") */
+  audio?: { name: string; language: string; uri: string; default?: boolean }[];
+  /** Subtitle renditions (EXT-X-MEDIA TYPE=SUBTITLES, group "subs") */
+  subtitles?: { name: string; language: string; uri: string; default?: boolean }[];
+}
+
+export interface MediaPlaylistOptions {
+  /** Total duration in seconds (default: 60) */
+  duration?: number;
+  /** Target segment length in seconds (default: 4) */
+  segmentDuration?: number;
+  /** Segment URI for index i (default: `segment${i}.ts`) */
+  segmentUri?: (index: number) => string;
+  /** Omit EXT-X-ENDLIST and start at this media sequence (sliding live window) */
+  live?: { mediaSequence: number };
+}
+
+/** Variants used when no levels are given */
+export const DEFAULT_LEVELS: FixtureLevel[] = [
+  { height: 360, width: 640 },
+  { height: 720, width: 1280 },
+  { height: 1080, width: 1920 },
+];
+
+/**
+ * Player config for tests: forces the native HLS path (so a FakeVideoElement
+ * drives playback instead of hls.js/MSE), disables retry backoff and keeps
+ * resume positions out of localStorage.
+ */
+export const TEST_PLAYER_CONFIG: PlayerConfig = {
+  platform: { supportsHlsJs: false, supportsMSE: false, supportsNativeHLS: true },
+  retry: false,
+  resume: false,
+  autopause: false,
+};
+
+/**
+ * Reset the module-level state every Player shares — the metadata cache, CDN host
+ * health and the remembered quality — so tests don't depend on each other's order
+ * (e.g. a CDN tripped in one test reordering the sources of the next). Call it in `beforeEach`.
+ */
+export function resetPlayerSingletons(): void {
+  metadataCache.clear();
+  cdnManager.reset();
+  qualityPreference.clear();
+}
+
+/** Generate an HLS master playlist */
+export function createMasterPlaylist(options: MasterPlaylistOptions = {}): string {
+  const levels = options.levels || DEFAULT_LEVELS;
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+  for (const track of options.audio || []) {
+    lines.push(
+      `#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="${track.name}",LANGUAGE="${track.language}",` +
+      `DEFAULT=${track.default ? 'YES' : 'NO'},AUTOSELECT=YES,URI="${track.uri}"`,
+    );
+  }
+  for (const track of options.subtitles || []) {
+    lines.push(
+      `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="${track.name}",LANGUAGE="${track.language}",` +
+      `DEFAULT=${track.default ? 'YES' : 'NO'},AUTOSELECT=YES,URI="${track.uri}"`,
+    );
+  }
+
+  for (const level of levels) {
+    const width = level.width ?? Math.round((level.height * 16) / 9);
+    const bandwidth = level.bandwidth ?? level.height * 2800;
+    let attrs = `BANDWIDTH=${bandwidth},RESOLUTION=${width}x${level.height}`;
+    if (options.audio?.length) attrs += ',AUDIO="audio"';
+    if (options.subtitles?.length) attrs += ',SUBTITLES="subs"';
+    lines.push(`#EXT-X-STREAM-INF:${attrs}`, level.uri ?? `${level.height}p/index.m3u8`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/** Generate an HLS media playlist (VOD unless `live` is set) */
+export function createMediaPlaylist(options: MediaPlaylistOptions = {}): string {
+  const duration = options.duration ?? 60;
+  const target = options.segmentDuration ?? 4;
+  const uri = options.segmentUri || ((i: number) => `segment${i}.ts`);
+  const sequence = options.live?.mediaSequence ?? 0;
+
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${Math.ceil(target)}`,
+    `#EXT-X-MEDIA-SEQUENCE:${sequence}`,
+  ];
+  if (!options.live) lines.push('#EXT-X-PLAYLIST-TYPE:VOD');
+
+  let remaining = duration;
+  for (let i = sequence; remaining > 0; i++) {
+    const length = Math.min(target, remaining);
+    lines.push(`#EXTINF:${length.toFixed(3)},`, uri(i));
+    remaining -= length;
+  }
+
+  if (!options.live) lines.push('#EXT-X-ENDLIST');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,41 @@
+/**
+ * Offline test kit for @mantequilla-soft/3speak-player
+ *
+ * Runs Player / PlayerPool flows deterministically in Node + jsdom: a mock
+ * 3Speak API (with generated HLS manifests) behind `fetch`, and a scriptable
+ * fake <video> element. Use with TEST_PLAYER_CONFIG so the player takes the
+ * native HLS path instead of hls.js/MSE, and call `resetPlayerSingletons()`
+ * before each test: players share a metadata cache, CDN health and quality choice.
+ *
+ * @example
+ * ```ts
+ * import { Player } from '@mantequilla-soft/3speak-player';
+ * import {
+ *   createMockApi, FakeVideoElement, TEST_PLAYER_CONFIG, flushPromises, resetPlayerSingletons,
+ * } from '@mantequilla-soft/3speak-player/testing';
+ *
+ * const mock = createMockApi({ videos: [{ owner: 'alice', permlink: 'intro' }] });
+ * beforeEach(() => { resetPlayerSingletons(); mock.reset(); mock.install(); });
+ * afterEach(() => mock.restore());
+ *
+ * it('plays', async () => {
+ *   const video = new FakeVideoElement();
+ *   const player = new Player(TEST_PLAYER_CONFIG).attach(video.asVideo());
+ *   await player.load('alice/intro');
+ *   await flushPromises();
+ *   expect(player.getState().ready).toBe(true);
+ * });
+ * ```
+ */
+export { createMockApi } from './mock-api';
+export type { MockApi, MockApiOptions, MockVideo, MockRequest } from './mock-api';
+export { FakeVideoElement, flushPromises } from './fake-video';
+export type { FakeVideoOptions } from './fake-video';
+export {
+  createMasterPlaylist,
+  createMediaPlaylist,
+  DEFAULT_LEVELS,
+  TEST_PLAYER_CONFIG,
+  resetPlayerSingletons,
+} from './fixtures';
+export type { FixtureLevel, MasterPlaylistOptions, MediaPlaylistOptions } from './fixtures';
@@ -0,0 +1,278 @@
+import type { VideoMetadata } from '../types';
+import { createMasterPlaylist, createMediaPlaylist } from './fixtures';
+import type { MasterPlaylistOptions } from './fixtures';
+
+/** A video served by the mock API. Anything not given gets a sensible default. */
+export interface MockVideo extends Partial<VideoMetadata> {
+  owner: string;
+  permlink: string;
+  /** Which endpoint knows the video: /api/embed (shorts) or /api/watch (legacy) (default: 'embed') */
+  endpoint?: 'embed' | 'watch';
+  /** Master playlist shape served at videoUrl and its fallbacks */
+  manifest?: MasterPlaylistOptions;
+  /**
+   * Serve the media playlists as a live stream: no EXT-X-ENDLIST, a `window`-second
+   * DVR window (default: 30) of `segmentDuration`-second segments (default: 4).
+   * Slide it with `advanceLive()`.
+   */
+  live?: boolean | { window?: number; segmentDuration?: number };
+}
+
+export interface MockApiOptions {
+  /** Base URL the API answers on (default: https://play.3speak.tv) */
+  apiBase?: string;
+  /** Host serving primary manifests (default: https://cdn.mock.3speak.test) */
+  cdnBase?: string;
+  /** Host serving fallback manifests (default: https://fallback.mock.3speak.test) */
+  fallbackBase?: string;
+  /** Videos to serve */
+  videos?: MockVideo[];
+  /** Delay before every response, in ms (default: 0) */
+  latency?: number;
+}
+
+/** A request seen by the mock */
+export interface MockRequest {
+  method: string;
+  url: string;
+  body: string | null;
+}
+
+export interface MockApi {
+  readonly apiBase: string;
+  /** fetch-compatible function serving the API, manifests and segments */
+  readonly fetch: typeof fetch;
+  /** Every request, in order */
+  readonly requests: MockRequest[];
+  /** Views received on /api/view */
+  readonly views: { owner: string; permlink: string; type: string }[];
+  /** Add (or replace) a video; returns its full metadata */
+  addVideo(video: MockVideo): VideoMetadata;
+  /** Stop serving a video ("author/permlink") */
+  removeVideo(ref: string): void;
+  /** Append `segments` segments (default: 1) to a live video, dropping as many from the start */
+  advanceLive(ref: string, segments?: number): void;
+  /** Make matching URLs answer with an HTTP status, or fail like a dropped connection */
+  fail(match: string | RegExp, response: number | 'network'): void;
+  clearFailures(): void;
+  /** Number of requests whose URL matches */
+  count(match: string | RegExp): number;
+  /** Replace globalThis.fetch with the mock; returns restore() */
+  install(): () => void;
+  /** Put the original globalThis.fetch back */
+  restore(): void;
+  /** Forget requests, views and failures (videos are kept) */
+  reset(): void;
+}
+
+/**
+ * In-process 3Speak API for tests.
+ *
+ * Serves `/api/embed`, `/api/watch` and `/api/view` like play.3speak.tv, plus
+ * generated master/media playlists and empty segments for every video's
+ * primary and fallback URLs. Videos added with `live` serve a sliding live
+ * window instead of a VOD playlist.
+ *
+ * @example
+ * ```ts
+ * const mock = createMockApi({ videos: [{ owner: 'alice', permlink: 'intro', duration: 30 }] });
+ * mock.install();
+ * await new ThreeSpeakApi().fetchSource('alice', 'intro');
+ * mock.restore();
+ * ```
+ */
+export function createMockApi(options: MockApiOptions = {}): MockApi {
+  const apiBase = (options.apiBase || 'https://play.3speak.tv').replace(/\/$/, '');
+  const cdnBase = (options.cdnBase || 'https://cdn.mock.3speak.test').replace(/\/$/, '');
+  const fallbackBase = (options.fallbackBase || 'https://fallback.mock.3speak.test').replace(/\/$/, '');
+  const latency = options.latency ?? 0;
+
+  const videos = new Map<string, {
+    meta: VideoMetadata;
+    endpoint: 'embed' | 'watch';
+    manifest?: MasterPlaylistOptions;
+    live: { window: number; segmentDuration: number; mediaSequence: number } | null;
+  }>();
+  const failures: { match: string | RegExp; response: number | 'network' }[] = [];
+  const requests: MockRequest[] = [];
+  const views: { owner: string; permlink: string; type: string }[] = [];
+  let original: typeof fetch | null = null;
+
+  const matches = (url: string, match: string | RegExp) =>
+    typeof match === 'string' ? url.includes(match) : match.test(url);
+
+  const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  /** Video whose manifest tree contains `url`, with the path below its manifest directory */
+  const findByMediaUrl = (url: string) => {
+    for (const video of videos.values()) {
+      const { meta } = video;
+      for (const manifest of [meta.videoUrl, meta.videoUrlFallback1, meta.videoUrlFallback2, meta.videoUrlFallback3]) {
+        if (!manifest) continue;
+        const dir = manifest.substring(0, manifest.lastIndexOf('/') + 1);
+        if (url === manifest) return { video, path: '' };
+        if (url.startsWith(dir)) return { video, path: url.slice(dir.length) };
+      }
+    }
+    return null;
+  };
+
+  const lookup = (url: URL, endpoint: 'embed' | 'watch') => {
+    const ref = (url.searchParams.get('v') || '').replace(/^@/, '');
+    const [owner, permlink] = ref.split('/');
+    if (!owner || !permlink) return json(400, { error: 'Invalid video ref' });
+    const video = videos.get(`${owner}/${permlink}`);
+    if (!video || video.endpoint !== endpoint) return json(404, { error: 'Video not found' });
+    return json(200, video.meta);
+  };
+
+  const respond = (method: string, href: string, body: string | null): Response => {
+    const url = new URL(href);
+
+    if (href.startsWith(apiBase + '/api/')) {
+      const path = url.pathname.replace(/^.*\/api\//, '');
+      if (path === 'embed' && method === 'GET') return lookup(url, 'embed');
+      if (path === 'watch' && method === 'GET') return lookup(url, 'watch');
+      if (path === 'view' && method === 'POST') {
+        const { owner, permlink, type } = JSON.parse(body || '{}');
+        views.push({ owner, permlink, type });
+        return json(200, { success: true });
+      }
+      return json(404, { error: 'Not found' });
+    }
+
+    const media = findByMediaUrl(href);
+    if (media) {
+      const { video, path } = media;
+      if (path === '') {
+        return new Response(createMasterPlaylist(video.manifest), {
+          headers: { 'Content-Type': 'application/vnd.apple.mpegurl' },
+        });
+      }
+      if (path.endsWith('.m3u8')) {
+        const { live } = video;
+        const playlist = live
+          ? createMediaPlaylist({
+            duration: live.window,
+            segmentDuration: live.segmentDuration,
+            live: { mediaSequence: live.mediaSequence },
+          })
+          : createMediaPlaylist({ duration: video.meta.duration || 60 });
+        return new Response(playlist, {
+          headers: { 'Content-Type': 'application/vnd.apple.mpegurl' },
+        });
+      }
+      if (/\.(ts|m4s|mp4|aac|vtt)$/.test(path)) {
+        return new Response(new Uint8Array(0), { headers: { 'Content-Type': 'video/mp2t' } });
+      }
+    }
+
+    return new Response('Not found', { status: 404 });
+  };
+
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase();
+    const body = typeof init?.body === 'string' ? init.body : null;
+    const signal = init?.signal;
+    requests.push({ method, url: href, body });
+
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+    if (signal?.aborted) throw abortError();
+    if (latency > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, latency);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(abortError());
+        }, { once: true });
+      });
+    }
+
+    const failure = failures.find((f) => matches(href, f.match));
+    if (failure?.response === 'network') throw new TypeError('Failed to fetch');
+    if (failure) return json(failure.response, { error: `HTTP ${failure.response}` });
+
+    return respond(method, href, body);
+  };
+
+  const api: MockApi = {
+    apiBase,
+    fetch: mockFetch as typeof fetch,
+    requests,
+    views,
+
+    addVideo(video) {
+      const { endpoint = 'embed', manifest, live, ...fields } = video;
+      const path = `${video.owner}/${video.permlink}/manifest.m3u8`;
+      const meta: VideoMetadata = {
+        title: video.permlink,
+        status: 'published',
+        videoUrl: `${cdnBase}/${path}`,
+        videoUrlFallback1: `${fallbackBase}/${path}`,
+        videoUrlFallback2: null,
+        videoUrlFallback3: null,
+        thumbnail: `${cdnBase}/${video.owner}/${video.permlink}/thumbnail.jpg`,
+        duration: 60,
+        views: 0,
+        short: endpoint === 'embed',
+        isPlaceholder: false,
+        ...fields,
+      };
+      const liveOptions = live === true ? {} : live || null;
+      videos.set(`${video.owner}/${video.permlink}`, {
+        meta,
+        endpoint,
+        manifest,
+        live: liveOptions && {
+          window: liveOptions.window ?? 30,
+          segmentDuration: liveOptions.segmentDuration ?? 4,
+          mediaSequence: 0,
+        },
+      });
+      return meta;
+    },
+
+    removeVideo(ref) {
+      videos.delete(ref.replace(/^@/, ''));
+    },
+
+    advanceLive(ref, segments = 1) {
+      const live = videos.get(ref.replace(/^@/, ''))?.live;
+      if (live) live.mediaSequence += segments;
+    },
+
+    fail(match, response) {
+      failures.push({ match, response });
+    },
+
+    clearFailures() {
+      failures.length = 0;
+    },
+
+    count(match) {
+      return requests.filter((r) => matches(r.url, match)).length;
+    },
+
+    install() {
+      if (!original) original = globalThis.fetch;
+      globalThis.fetch = mockFetch as typeof fetch;
+      return () => api.restore();
+    },
+
+    restore() {
+      if (original) globalThis.fetch = original;
+      original = null;
+    },
+
+    reset() {
+      requests.length = 0;
+      views.length = 0;
+      failures.length = 0;
+    },
+  };
+
+  for (const video of options.videos || []) api.addVideo(video);
+  return api;
+}
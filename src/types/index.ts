@@ -1,3 +1,8 @@
+import type { CdnManager } from '../core/cdn';
+import type { Player } from '../core/player';
+import type { QualityPreference } from '../core/quality';
+import type { PlayerError, PlayerErrorCode } from '../core/errors';
+
 /** Video source with CDN fallback chain */
 export interface VideoSource {
   /** Primary HLS URL (.m3u8) */
@@ -6,6 +11,45 @@ export interface VideoSource {
   fallbacks?: string[];
   /** Poster/thumbnail image URL */
   poster?: string;
+  /**
+   * Seek-preview thumbnail track: a WebVTT sprite track (.vtt) or an HLS image playlist.
+   * When omitted, the primary manifest is checked for `#EXT-X-IMAGE-STREAM-INF`.
+   */
+  thumbnails?: string;
+  /** Sidecar subtitle/caption files (.vtt) */
+  subtitles?: TextTrackSource[];
+}
+
+/** A sidecar WebVTT subtitle file declared on a VideoSource */
+export interface TextTrackSource {
+  /** WebVTT file URL */
+  url: string;
+  /** BCP 47 language code (e.g. "en", "es") */
+  lang: string;
+  /** Display label (defaults to the language code) */
+  label?: string;
+  /** Track kind (default: 'subtitles') */
+  kind?: 'subtitles' | 'captions';
+  /** Show this track by default */
+  default?: boolean;
+}
+
+/** Text track available for selection */
+export interface TextTrackInfo {
+  /** Stable id to pass to setTextTrack() */
+  id: string;
+  label: string;
+  language: string;
+  kind: 'subtitles' | 'captions';
+  /** Where the track comes from: hls.js subtitle group, sidecar .vtt, or native HLS */
+  source: 'hls' | 'sidecar' | 'native';
+}
+
+/** A currently active subtitle cue */
+export interface TextCue {
+  start: number;
+  end: number;
+  text: string;
 }
 
 /** Video metadata returned by the 3Speak API */
@@ -25,6 +69,23 @@ export interface VideoMetadata {
   isPlaceholder: boolean;
 }
 
+/** One result of ThreeSpeakApi.fetchMany() — exactly one of metadata/error is set */
+export interface MetadataResult {
+  ref: string;
+  metadata: VideoMetadata | null;
+  error: PlayerError | null;
+}
+
+/** Limits for a MetadataCache */
+export interface MetadataCacheOptions {
+  /** How long metadata stays cached, in ms (default: 5 minutes) */
+  ttl?: number;
+  /** How long a "video not found" answer stays cached, in ms (default: 60s) */
+  negativeTtl?: number;
+  /** Maximum cached refs, least recently used evicted first (default: 200) */
+  maxEntries?: number;
+}
+
 /** Player state snapshot */
 export interface PlayerState {
   currentTime: number;
@@ -47,14 +108,138 @@ export interface PlayerState {
   audioOnly: boolean;
   /** Current playback rate (1 = normal) */
   playbackRate: number;
+  /** Selected text track id (null = captions off) */
+  textTrack: string | null;
+  /** Live stream (media playlist without #EXT-X-ENDLIST) */
+  isLive: boolean;
+  /** Live edge (end of the seekable window) in seconds (null for VOD) */
+  liveEdge: number | null;
+  /** Seconds behind the live edge (null for VOD) */
+  latency: number | null;
+  /** Seekable DVR window of a live stream (null for VOD) */
+  dvrWindow: { start: number; end: number } | null;
 }
 
-/** HLS quality level (hls.js only) */
+/** HLS quality level (hls.js level, or master playlist variant on native HLS) */
 export interface QualityLevel {
   index: number;
   height: number;
   width: number;
   bitrate: number;
+  /** Whether adaptive bitrate may pick this level under the current QualityPolicy */
+  allowed: boolean;
+}
+
+/** Quality selection policy (hls.js only) */
+export interface QualityPolicy {
+  /** Cap adaptive bitrate at the rendered size of the <video> × devicePixelRatio (default: true) */
+  capToSize?: boolean;
+  /** Data saver: cap adaptive bitrate at `dataSaverBitrate` (default: false) */
+  dataSaver?: boolean;
+  /** Bitrate ceiling in bits/s while data saver is on (default: 800000) */
+  dataSaverBitrate?: number;
+  /** Highest rendition height in px (default: null = no cap) */
+  maxHeight?: number | null;
+  /** Where the viewer's manual choice from setQuality() is remembered (default: the shared `qualityPreference`) */
+  preference?: QualityPreference;
+}
+
+/** A variant stream (#EXT-X-STREAM-INF) of an HLS master playlist */
+export interface HlsVariant {
+  /** Absolute URL of the variant's media playlist */
+  uri: string;
+  /** Peak bits/s */
+  bandwidth: number;
+  averageBandwidth: number | null;
+  /** From RESOLUTION (0 when absent, e.g. audio-only variants) */
+  width: number;
+  height: number;
+  codecs: string[];
+  frameRate: number | null;
+  /** AUDIO / SUBTITLES rendition group ids */
+  audio: string | null;
+  subtitles: string | null;
+}
+
+/** An alternate rendition (#EXT-X-MEDIA) of an HLS master playlist */
+export interface HlsRendition {
+  type: 'AUDIO' | 'VIDEO' | 'SUBTITLES' | 'CLOSED-CAPTIONS';
+  groupId: string;
+  name: string;
+  language: string | null;
+  default: boolean;
+  autoselect: boolean;
+  /** Absolute URL (null for renditions carried in the variant stream) */
+  uri: string | null;
+}
+
+export interface HlsMasterPlaylist {
+  type: 'master';
+  url: string;
+  /** In playlist order */
+  variants: HlsVariant[];
+  renditions: HlsRendition[];
+}
+
+/** A media segment (#EXTINF) */
+export interface HlsSegment {
+  /** Absolute URL */
+  uri: string;
+  duration: number;
+  /** Start time in seconds from the start of the playlist */
+  start: number;
+  /** Media sequence number */
+  sequence: number;
+  /** Preceded by #EXT-X-DISCONTINUITY */
+  discontinuity: boolean;
+  /** #EXT-X-PROGRAM-DATE-TIME in ms since epoch */
+  programDateTime: number | null;
+}
+
+export interface HlsMediaPlaylist {
+  type: 'media';
+  url: string;
+  targetDuration: number;
+  mediaSequence: number;
+  playlistType: 'VOD' | 'EVENT' | null;
+  /** Has #EXT-X-ENDLIST — false for live streams */
+  endList: boolean;
+  /** Sum of the segment durations */
+  duration: number;
+  segments: HlsSegment[];
+}
+
+export type HlsPlaylist = HlsMasterPlaylist | HlsMediaPlaylist;
+
+/** Live playback behaviour */
+export interface LivePolicy {
+  /** Seconds to stay behind the live edge (default: null = 3 target durations, as hls.js) */
+  targetLatency?: number | null;
+  /** Speed playback up when latency drifts above the target (default: true) */
+  catchUp?: boolean;
+  /** Playback rate used to catch up (default: 1.1) */
+  catchUpRate?: number;
+  /** Seconds past the target latency at which the viewer counts as behind live (default: 10) */
+  behindThreshold?: number;
+}
+
+/** Alternate audio rendition (e.g. dubbed language) */
+export interface AudioTrackInfo {
+  index: number;
+  label: string;
+  /** BCP 47 language code ('' if unknown) */
+  language: string;
+  /** Marked as the default rendition in the manifest */
+  default: boolean;
+}
+
+/** Seek-preview thumbnail: a region of a sprite image (w/h are 0 for a whole image) */
+export interface Thumbnail {
+  url: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
 }
 
 /** Events emitted by the player */
@@ -64,9 +249,15 @@ export interface PlayerEvents {
   pause: () => void;
   ended: () => void;
   timeupdate: (state: { currentTime: number; duration: number; paused: boolean }) => void;
-  error: (error: { message: string; code?: number; fatal: boolean }) => void;
-  /** Fired when falling back to an alternate CDN source */
-  fallback: (info: { url: string; index: number }) => void;
+  /** Playback or loading failed — branch on `error.code` (see PlayerErrorCode) */
+  error: (error: PlayerError) => void;
+  /**
+   * Fired when falling back to an alternate CDN source.
+   * `index` is the position in the (health-ordered) source chain; `health` describes the host that failed.
+   */
+  fallback: (info: { url: string; index: number; reason: string; health: CdnHostHealth }) => void;
+  /** Recovering from an error on the current source (e.g. show "reconnecting…") */
+  retry: (info: { kind: 'network' | 'media'; attempt: number; maxAttempts: number; delay: number; reason: string }) => void;
   /** Fired when video dimensions are known */
   resize: (info: { width: number; height: number; isVertical: boolean }) => void;
   /** Loading state changed */
@@ -83,8 +274,35 @@ export interface PlayerEvents {
   visibility: (visible: boolean) => void;
   /** Playback rate changed */
   ratechange: (rate: number) => void;
+  /** Volume or muted state changed */
+  volumechange: (info: { volume: number; muted: boolean }) => void;
+  /** load() started for a new video (ref is null for direct sources) */
+  loadstart: (info: { ref: string | null }) => void;
+  /** A pending load() was cancelled before it reached playback */
+  abort: (info: { ref: string | null; reason: LoadAbortReason }) => void;
   /** Playback resumed from saved position */
   resume: (info: { time: number; ref: string }) => void;
+  /** Audio track changed */
+  audiotrackchange: (track: AudioTrackInfo) => void;
+  /** A view was recorded for the current ref (see PlayerConfig.recordViews) */
+  viewrecorded: (info: { ref: string; type: string }) => void;
+  /** Selected text track changed (null = captions off), including a source's default sidecar track turning on or a new load removing it */
+  texttrackchange: (id: string | null) => void;
+  /** Active subtitle cues changed on the selected text track */
+  cuechange: (info: { trackId: string; cues: TextCue[] }) => void;
+  /** The current source turned out to be a live stream */
+  live: (info: { targetLatency: number }) => void;
+  /** The viewer fell behind the live edge (e.g. after a pause or seeking back) or caught up again */
+  behindlive: (info: { behind: boolean; latency: number }) => void;
+}
+
+/** Why a pending load was cancelled: a newer load(), the caller's signal, or destroy()/detach() */
+export type LoadAbortReason = 'superseded' | 'signal' | 'detached';
+
+/** Options for Player.load() */
+export interface LoadOptions {
+  /** Cancels this load (load() then rejects with an ABORTED PlayerError) */
+  signal?: AbortSignal;
 }
 
 /** Configuration for creating a player instance */
@@ -101,12 +319,396 @@ export interface PlayerConfig {
   poster?: boolean;
   /** hls.js configuration overrides */
   hlsConfig?: Record<string, unknown>;
+  /**
+   * Keep one hls.js instance across load() calls and switch sources with `hls.loadSource()`
+   * instead of creating a new one each time (default: false). Used by recycling pools
+   */
+  reuseHls?: boolean;
+  /** Quality policy: size cap, data saver and the remembered manual choice (hls.js only) */
+  quality?: QualityPolicy;
+  /** Live streams: target latency, catch-up rate and the "behind live" threshold */
+  live?: LivePolicy;
   /** Start in audio-only mode */
   audioOnly?: boolean;
   /** Auto-pause when video scrolls out of viewport (IntersectionObserver) */
   autopause?: boolean;
-  /** Resume playback from last position (uses localStorage) */
+  /** Resume playback from last position */
   resume?: boolean;
+  /** Where resume positions are stored (default: shared LocalStorageResumeStore) */
+  resumeStore?: ResumeStore;
+  /** Retry/recovery policy before falling back to the next source (`false` = fall back immediately) */
+  retry?: RetryPolicy | false;
+  /** CDN health tracker (default: the shared `cdnManager`, so health is learned across players) */
+  cdn?: CdnManager;
+  /** Race manifest requests across the source chain at load and start with the fastest host */
+  raceSources?: boolean;
+  /**
+   * Record a view through the 3Speak API once per load of an "author/permlink" ref.
+   * `true` uses the default rule (10s watched, type 'embed').
+   */
+  recordViews?: boolean | ViewRecordingRule;
+  /** Audio language to select automatically when available (e.g. "es"; matches "es-MX") */
+  preferredAudioLanguage?: string;
+  /**
+   * Override detected platform capabilities, e.g. `{ supportsHlsJs: false, supportsNativeHLS: true }`
+   * to force the native HLS path (used by the `/testing` kit)
+   */
+  platform?: Partial<PlatformInfo>;
+}
+
+/** Options for a PlayerPool */
+export interface PlayerPoolOptions {
+  /**
+   * Recycling mode: the pool owns this many Players and <video> elements and rebinds
+   * them to video ids with `bind()` instead of creating and destroying players (default: 0 = off)
+   */
+  recycle?: number;
+  /** Creates the pool's <video> elements in recycling mode (default: `document.createElement('video')`) */
+  createElement?: () => HTMLVideoElement;
+  /** Initial shared settings (muted, loop and audioOnly default to the PlayerConfig values) */
+  settings?: Partial<PoolSettings>;
+}
+
+/** Settings a PlayerPool applies to every current and future player */
+export interface PoolSettings {
+  muted: boolean;
+  /** 0-1 */
+  volume: number;
+  playbackRate: number;
+  loop: boolean;
+  /** Highest rendition height adaptive bitrate may pick, in px (null = no cap; hls.js only) */
+  maxHeight: number | null;
+  /** Data saver mode (see QualityPolicy.dataSaver) */
+  dataSaver: boolean;
+  audioOnly: boolean;
+  /** Caption language to select when a video has it (e.g. "en"; matches "en-US"), null = off */
+  captions: string | null;
+}
+
+/** A PlayerEvents event re-emitted by a PlayerPool, with the player's id first */
+export type PooledPlayerEvents = {
+  [K in keyof PlayerEvents]: (id: string, ...args: Parameters<PlayerEvents[K]>) => void;
+};
+
+/** Events emitted by a PlayerPool: every PlayerEvents event tagged with its id, plus pool events */
+export interface PlayerPoolEvents extends PooledPlayerEvents {
+  /** The active player changed (id is null when the active player was removed) */
+  activechange: (info: { id: string | null; previousId: string | null }) => void;
+  /** A player joined the pool (add(), addByRef() or bind()) */
+  playeradded: (id: string, player: Player) => void;
+  /** A player left the pool (remove(), retainOnly(), release() or destroy()) */
+  playerremoved: (id: string) => void;
+  /** Shared settings changed */
+  settingschange: (settings: PoolSettings) => void;
+}
+
+/** A physical player slot of a recycling PlayerPool */
+export interface PoolSlot {
+  /** Slot index (0 to recycle - 1) */
+  index: number;
+  /** Video id bound to the slot, null while free */
+  id: string | null;
+  player: Player;
+  element: HTMLVideoElement;
+}
+
+/** A saved resume position */
+export interface ResumeEntry {
+  /** Video ref ("author/permlink") */
+  ref: string;
+  /** Position in seconds */
+  time: number;
+  /** When the position was last saved (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for resume positions.
+ * Implement this to sync positions to a server or a custom storage layer.
+ */
+export interface ResumeStore {
+  get(ref: string): Promise<ResumeEntry | null>;
+  set(ref: string, time: number): Promise<void>;
+  delete(ref: string): Promise<void>;
+  list(): Promise<ResumeEntry[]>;
+}
+
+/** Eviction limits for the built-in resume stores */
+export interface ResumeStoreOptions {
+  /** Drop entries not saved within this many ms (default: 30 days) */
+  ttl?: number;
+  /** Keep at most this many entries, evicting the least recently saved (default: 500) */
+  maxEntries?: number;
+}
+
+/** A playlist entry: either an "author/permlink" ref or a direct VideoSource */
+export type PlaylistItem = string | VideoSource;
+
+/** Playlist repeat mode */
+export type RepeatMode = 'off' | 'one' | 'all';
+
+/** Configuration for a Playlist */
+export interface PlaylistOptions {
+  /** Automatically load the next item when the current one ends (default: true) */
+  autoAdvance?: boolean;
+  /** Start playback after each item loads (default: true) */
+  autoPlay?: boolean;
+  /** Play items in random order (default: false) */
+  shuffle?: boolean;
+  /** Repeat mode (default: 'off') */
+  repeat?: RepeatMode;
+  /** Prefetch the upcoming item's manifest (default: true) */
+  prefetch?: boolean;
+}
+
+/** Events emitted by a Playlist */
+export interface PlaylistEvents {
+  /** Current item changed (index refers to the original item order) */
+  itemchange: (info: { item: PlaylistItem; index: number; previousIndex: number }) => void;
+  /** Reached the end of the queue with repeat off */
+  queueend: () => void;
+}
+
+/** Configuration for a FeedController */
+export interface FeedOptions {
+  /**
+   * Players kept alive before and after the active slot (default: 1).
+   * A recycling pool needs at least `2 * window + 1` players.
+   */
+  window?: number;
+  /** Manifests prefetched beyond the window, ahead of the active slot (default: 2) */
+  prefetch?: number;
+  /** Visible fraction (0-1) a slot needs before it can become active (default: 0.6) */
+  threshold?: number;
+  /** IntersectionObserver root (default: the viewport) */
+  root?: Element | Document | null;
+  /** IntersectionObserver rootMargin (default: '0px') */
+  rootMargin?: string;
+  /** Scroll the slot into view when activated through activate()/next()/previous() (default: true) */
+  scrollIntoView?: boolean;
+}
+
+/** Events emitted by a FeedController */
+export interface FeedEvents {
+  /** Active slot changed; `previousId` is null for the first activation */
+  activechange: (info: { id: string; previousId: string | null; index: number }) => void;
+  /** The last registered slot became active — time to load more */
+  end: () => void;
+  /** The active slot's play() was rejected (e.g. autoplay blocked while unmuted) */
+  playfailed: (info: { id: string; error: unknown }) => void;
+}
+
+/** Quality-of-experience metrics for one load of one video */
+export interface PlaybackSession {
+  /** Random id for this session */
+  sessionId: string;
+  /** Video ref ("author/permlink"), null for direct sources */
+  ref: string | null;
+  /** URL that actually served the video (primary or fallback) */
+  url: string | null;
+  /** Host of `url` */
+  host: string | null;
+  /** Number of CDN fallbacks taken */
+  fallbacks: number;
+  /** Playback engine */
+  engine: 'hls.js' | 'native';
+  /** Session start (ms since epoch) */
+  startedAt: number;
+  /** load() → first rendered frame in ms (null if playback never started) */
+  timeToFirstFrame: number | null;
+  /** Stalls after playback started (seeks excluded) */
+  rebufferCount: number;
+  /** Total stall time in ms */
+  rebufferDuration: number;
+  /** Stall time / (stall time + watch time), 0-1 */
+  rebufferRatio: number;
+  /** Watch-time-weighted average bitrate in bits/s (0 if unknown, e.g. native HLS) */
+  averageBitrate: number;
+  /** Number of quality switches */
+  bitrateSwitches: number;
+  /** Frames dropped during the session (from getVideoPlaybackQuality) */
+  droppedFrames: number;
+  /** Seconds of actual playback */
+  watchTime: number;
+  /** Non-fatal errors seen */
+  errors: number;
+  /** Fatal error message, if playback failed */
+  fatalError: string | null;
+  /** Fatal error code, if playback failed */
+  fatalErrorCode: PlayerErrorCode | null;
+}
+
+/** Configuration for PlaybackAnalytics */
+export interface AnalyticsConfig {
+  /** Collector URL receiving POSTed `{ sessions: PlaybackSession[] }` batches */
+  endpoint: string;
+  /** Send once this many sessions are queued (default: 10) */
+  batchSize?: number;
+  /** Also send queued sessions every N ms (default: 30000, 0 to disable) */
+  flushInterval?: number;
+  /** Fraction of sessions to record, 0-1 (default: 1) */
+  sampleRate?: number;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+/** Retry/recovery policy applied to the current source before falling back */
+export interface RetryPolicy {
+  /** Network retries per source before falling back (default: 2) */
+  maxNetworkRetries?: number;
+  /** Media (decode) recoveries per source before falling back (default: 2) */
+  maxMediaRetries?: number;
+  /** First network retry delay in ms, doubled each attempt (default: 1000) */
+  baseDelay?: number;
+  /** Upper bound for the retry delay in ms (default: 8000) */
+  maxDelay?: number;
+  /** Random ± fraction applied to each delay, 0-1 (default: 0.3) */
+  jitter?: number;
+}
+
+/** Configuration for a CdnManager */
+export interface CdnConfig {
+  /** Consecutive failures before a host's circuit opens (default: 2) */
+  failureThreshold?: number;
+  /** How long an open circuit skips the host, in ms (default: 60000) */
+  cooldown?: number;
+  /** Give up on a manifest race after this many ms (default: 4000) */
+  raceTimeout?: number;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+/** Health snapshot of a CDN host */
+export interface CdnHostHealth {
+  host: string;
+  /** 0 (failing) – 1 (healthy) */
+  score: number;
+  /** Consecutive failures */
+  failures: number;
+  /** Total successful loads */
+  successes: number;
+  /** Last failure (ms since epoch) */
+  lastFailure: number | null;
+  /** Smoothed manifest/startup latency in ms */
+  latency: number | null;
+  /** Circuit open — host is being skipped */
+  open: boolean;
+}
+
+/** When a view counts, for PlayerConfig.recordViews */
+export interface ViewRecordingRule {
+  /** Seconds of actual playback required (default: 10 unless `percent` is set) */
+  seconds?: number;
+  /** Percent (0-100) of the duration that must be watched. With `seconds`, whichever is reached first wins */
+  percent?: number;
+  /** View type sent to the API (default: 'embed') */
+  type?: 'embed' | 'watch' | 'short';
+}
+
+/** createControls() layout: a full control bar for long-form, or a thin seek bar + play/mute for shorts */
+export type ControlsLayout = 'full' | 'minimal';
+
+/** Options for createControls() */
+export interface ControlsOptions {
+  /** Layout (default: 'full') */
+  layout?: ControlsLayout;
+  /** Hide after this many ms without pointer/keyboard activity while playing (default: 2500, 0 = never) */
+  autoHide?: number;
+  /** Playback rates offered in the speed menu (default: [0.5, 0.75, 1, 1.25, 1.5, 2]) */
+  speeds?: number[];
+  /** Show the volume slider (default: true; full layout only) */
+  volume?: boolean;
+  /** Show the quality menu when hls.js reports levels (default: true; full layout only) */
+  quality?: boolean;
+  /** Show the speed menu (default: true; full layout only) */
+  speed?: boolean;
+  /** Show the Picture-in-Picture toggle where supported (default: true; full layout only) */
+  pip?: boolean;
+  /** Show the fullscreen toggle where supported (default: true; full layout only) */
+  fullscreen?: boolean;
+}
+
+/** Actions the keyboard controller can bind */
+export type KeyboardAction =
+  | 'togglePlay'
+  | 'rewind'
+  | 'fastForward'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'togglePip'
+  | 'slower'
+  | 'faster'
+  | 'seekPercent';
+
+/** Options for createKeyboardController() */
+export interface KeyboardOptions {
+  /**
+   * Keys (KeyboardEvent.key values) per action, merged over the defaults; `[]` disables an action.
+   * Defaults: togglePlay ' '/'k', rewind 'j', fastForward 'l', seekBackward/seekForward arrows,
+   * volumeUp/volumeDown arrows, toggleMute 'm', toggleFullscreen 'f', togglePip 'i',
+   * slower '<', faster '>', seekPercent '0'-'9'
+   */
+  keymap?: Partial<Record<KeyboardAction, string[]>>;
+  /**
+   * Where keys are heard: 'container' (default) only while focus is inside the container,
+   * or 'document' for page-wide shortcuts — combine with `when` so only one player reacts
+   */
+  scope?: 'container' | 'document';
+  /** Extra guard evaluated per key press, e.g. `() => pool.activePlayerId === id` */
+  when?: () => boolean;
+  /** Seconds for j/l (default: 10) */
+  jumpStep?: number;
+  /** Seconds for the arrow keys (default: 5) */
+  seekStep?: number;
+  /** Volume change per arrow press, 0-1 (default: 0.05) */
+  volumeStep?: number;
+  /** Rates stepped through by slower/faster (default: [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]) */
+  speeds?: number[];
+  /** Announce state changes through an ARIA live region (default: true) */
+  announce?: boolean;
+}
+
+/** Options for createGestureController() */
+export interface GestureOptions {
+  /** Toggle play/pause on a single tap (default: true) */
+  tap?: boolean;
+  /** Seconds seeked by a double tap on the left/right half; further taps keep seeking (default: 10, 0 = off) */
+  doubleTapSeek?: number;
+  /** Max ms between taps of a double tap; single taps wait this long when double-tap seek is on (default: 300) */
+  doubleTapDelay?: number;
+  /** Playback rate while pressing and holding, restored on release (default: 2, 0 = off) */
+  longPressRate?: number;
+  /** Hold time in ms before a press becomes a long press (default: 500) */
+  longPressDelay?: number;
+  /**
+   * Emit `next`/`previous` on vertical swipes (default: false). This replaces native vertical
+   * scrolling over the element, so leave it off for feeds that scroll natively (e.g. scroll-snap)
+   */
+  swipe?: boolean;
+  /** Vertical distance in px that makes a swipe (default: 60) */
+  swipeThreshold?: number;
+  /** Shorter flicks count when faster than this, in px/ms (default: 0.5) */
+  swipeVelocity?: number;
+  /** Movement in px after which a press is no longer a tap or long press (default: 10) */
+  moveTolerance?: number;
+}
+
+/** Events emitted by a GestureController */
+export interface GestureEvents {
+  /** Single tap (after the double-tap window when double-tap seek is on) */
+  tap: () => void;
+  /** Double-tap seek; `seconds` is the running total for consecutive taps */
+  doubletap: (info: { side: 'left' | 'right'; seconds: number }) => void;
+  /** Long press started (true) or released (false) */
+  longpress: (active: boolean) => void;
+  /** Swipe up — intent to move to the next video */
+  next: () => void;
+  /** Swipe down — intent to move to the previous video */
+  previous: () => void;
 }
 
 /** Platform detection results */
@@ -0,0 +1,529 @@
+import type { Player } from '../core/player';
+import type { ControlsOptions, EventUnsubscribe } from '../types';
+import { formatTime } from './format';
+
+const DEFAULT_OPTIONS: Required<ControlsOptions> = {
+  layout: 'full',
+  autoHide: 2500,
+  speeds: [0.5, 0.75, 1, 1.25, 1.5, 2],
+  volume: true,
+  quality: true,
+  speed: true,
+  pip: true,
+  fullscreen: true,
+};
+
+const ICONS = {
+  play: 'M8 5v14l11-7z',
+  pause: 'M6 19h4V5H6v14zm8-14v14h4V5h-4z',
+  volume: 'M3 9v6h4l5 5V4L7 9H3zm13.5 3A4.5 4.5 0 0 0 14 8v8a4.5 4.5 0 0 0 2.5-4zM14 3.23v2.06a7 7 0 0 1 0 13.42v2.06a9 9 0 0 0 0-17.54z',
+  muted: 'M3 9v6h4l5 5V4L7 9H3zm13.59 3L19 9.59 17.59 8.17 15.17 10.6 12.76 8.17 11.34 9.59 13.76 12l-2.42 2.41 1.42 1.42 2.41-2.42 2.42 2.42L19 14.41z',
+  pip: 'M19 7h-8v6h8V7zm2-4H3a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h18a2 2 0 0 0 2-2V5a2 2 0 0 0-2-2zm0 16H3V5h18v14z',
+  fullscreen: 'M7 14H5v5h5v-2H7v-3zm-2-4h2V7h3V5H5v5zm12 7h-3v2h5v-5h-2v3zM14 5v2h3v3h2V5h-5z',
+  exitFullscreen: 'M5 16h3v3h2v-5H5v2zm3-8H5v2h5V5H8v3zm6 11h2v-3h3v-2h-5v5zm2-11V5h-2v5h5V8h-3z',
+};
+
+/**
+ * Theme through custom properties on the container or any ancestor:
+ * --tsp-accent, --tsp-fg, --tsp-bg, --tsp-menu-bg, --tsp-track, --tsp-buffered,
+ * --tsp-font, --tsp-radius, --tsp-bar-height, --tsp-icon-size.
+ */
+const STYLE = `
+.tsp-container { position: relative; }
+.tsp-controls {
+  position: absolute; left: 0; right: 0; bottom: 0; z-index: 2;
+  display: flex; flex-direction: column; gap: 4px; padding: 0 10px 8px;
+  color: var(--tsp-fg, #fff); font: 13px/1 var(--tsp-font, system-ui, sans-serif);
+  background: var(--tsp-bg, linear-gradient(transparent, rgba(0, 0, 0, 0.7)));
+  transition: opacity 0.2s; user-select: none; -webkit-user-select: none;
+}
+.tsp-controls[data-hidden] { opacity: 0; pointer-events: none; }
+.tsp-bar { display: flex; align-items: center; gap: 6px; height: var(--tsp-bar-height, 36px); }
+.tsp-spacer { flex: 1; }
+.tsp-btn {
+  display: inline-flex; align-items: center; justify-content: center; min-width: 32px; height: 32px;
+  padding: 0 6px; border: 0; border-radius: var(--tsp-radius, 4px); background: none;
+  color: inherit; font: inherit; cursor: pointer;
+}
+.tsp-btn:hover, .tsp-btn:focus-visible { background: rgba(255, 255, 255, 0.15); outline: none; }
+.tsp-btn svg { width: var(--tsp-icon-size, 22px); height: var(--tsp-icon-size, 22px); fill: currentColor; }
+.tsp-btn[hidden], .tsp-menu-wrap[hidden] { display: none; }
+.tsp-time { font-variant-numeric: tabular-nums; white-space: nowrap; }
+.tsp-live { gap: 6px; font-weight: 600; letter-spacing: 0.04em; }
+.tsp-live::before { content: ""; width: 8px; height: 8px; border-radius: 50%; background: var(--tsp-accent, #e31337); }
+.tsp-live[data-behind]::before { background: var(--tsp-track, rgba(255, 255, 255, 0.3)); }
+.tsp-seek { position: relative; height: 14px; display: flex; align-items: center; }
+.tsp-seek-track {
+  position: absolute; left: 0; right: 0; height: 4px; border-radius: 2px;
+  background: var(--tsp-track, rgba(255, 255, 255, 0.3)); overflow: hidden; pointer-events: none;
+}
+.tsp-seek-buffered, .tsp-seek-played { position: absolute; top: 0; bottom: 0; left: 0; width: 0; }
+.tsp-seek-buffered { background: var(--tsp-buffered, rgba(255, 255, 255, 0.5)); }
+.tsp-seek-played { background: var(--tsp-accent, #e31337); }
+.tsp-seek input, .tsp-volume input { margin: 0; cursor: pointer; }
+.tsp-seek input { position: absolute; left: 0; right: 0; width: 100%; height: 14px; opacity: 0; }
+.tsp-volume { display: flex; align-items: center; }
+.tsp-volume input { width: 70px; accent-color: var(--tsp-accent, #e31337); }
+.tsp-menu-wrap { position: relative; }
+.tsp-menu {
+  position: absolute; right: 0; bottom: 100%; margin-bottom: 6px; min-width: 110px; padding: 4px 0;
+  display: flex; flex-direction: column; border-radius: var(--tsp-radius, 4px);
+  background: var(--tsp-menu-bg, rgba(20, 20, 20, 0.95));
+}
+.tsp-menu[hidden] { display: none; }
+.tsp-menu button {
+  padding: 8px 14px; border: 0; background: none; color: inherit; font: inherit; text-align: left; cursor: pointer;
+}
+.tsp-menu button:hover, .tsp-menu button:focus-visible { background: rgba(255, 255, 255, 0.15); outline: none; }
+.tsp-menu button[aria-checked="true"] { color: var(--tsp-accent, #e31337); }
+.tsp-spinner {
+  position: absolute; left: 50%; top: 50%; width: 36px; height: 36px; margin: -18px 0 0 -18px; z-index: 1;
+  border: 3px solid rgba(255, 255, 255, 0.3); border-top-color: var(--tsp-fg, #fff); border-radius: 50%;
+  animation: tsp-spin 0.8s linear infinite; pointer-events: none;
+}
+.tsp-spinner[hidden] { display: none; }
+@keyframes tsp-spin { to { transform: rotate(360deg); } }
+.tsp-controls[data-layout="minimal"] { padding: 0; gap: 0; background: none; }
+.tsp-controls[data-layout="minimal"] .tsp-bar { position: absolute; right: 8px; bottom: 12px; height: auto; }
+.tsp-controls[data-layout="minimal"] .tsp-seek-track { height: 3px; border-radius: 0; }
+`;
+
+/** Roots (document or shadow roots) that already have the stylesheet */
+const styledRoots = new WeakSet<Node>();
+
+function injectStyle(container: HTMLElement): void {
+  const root = container.getRootNode();
+  if (styledRoots.has(root)) return;
+  styledRoots.add(root);
+  const style = document.createElement('style');
+  style.dataset.threespeakControls = '';
+  style.textContent = STYLE;
+  (root instanceof ShadowRoot ? root : document.head).appendChild(style);
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className: string,
+  attrs: Record<string, string> = {},
+): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  node.className = className;
+  for (const [name, value] of Object.entries(attrs)) node.setAttribute(name, value);
+  return node;
+}
+
+function icon(path: string): string {
+  return `<svg viewBox="0 0 24 24" aria-hidden="true" focusable="false"><path d="${path}"/></svg>`;
+}
+
+/**
+ * Built-in control bar rendered over a player's container.
+ * Driven by PlayerEvents / getState() only, so it works for any Player.
+ * Use `createControls()` to create one.
+ */
+export class Controls {
+  /** Root element of the control bar */
+  readonly element: HTMLDivElement;
+
+  private options: Required<ControlsOptions>;
+  private unsubs: EventUnsubscribe[] = [];
+  private cleanupFns: (() => void)[] = [];
+  private hideTimer: ReturnType<typeof setTimeout> | null = null;
+  private scrubbing = false;
+  private duration = 0;
+  private live = false;
+
+  private playBtn: HTMLButtonElement;
+  private muteBtn: HTMLButtonElement;
+  private liveBtn: HTMLButtonElement;
+  private seekInput: HTMLInputElement;
+  private played: HTMLDivElement;
+  private bufferedBar: HTMLDivElement;
+  private spinner: HTMLDivElement;
+  private timeLabel: HTMLSpanElement | null = null;
+  private volumeInput: HTMLInputElement | null = null;
+  private speedMenu: { button: HTMLButtonElement; menu: HTMLDivElement } | null = null;
+  private qualityMenu: { wrap: HTMLDivElement; button: HTMLButtonElement; menu: HTMLDivElement } | null = null;
+  private pipBtn: HTMLButtonElement | null = null;
+  private fullscreenBtn: HTMLButtonElement | null = null;
+
+  constructor(
+    private player: Player,
+    private container: HTMLElement,
+    options?: ControlsOptions,
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    const full = this.options.layout === 'full';
+
+    injectStyle(container);
+    container.classList.add('tsp-container');
+
+    this.element = el('div', 'tsp-controls', { 'data-layout': this.options.layout });
+    this.spinner = el('div', 'tsp-spinner', { hidden: '' });
+
+    // Seek bar
+    const seek = el('div', 'tsp-seek');
+    const track = el('div', 'tsp-seek-track');
+    this.bufferedBar = el('div', 'tsp-seek-buffered');
+    this.played = el('div', 'tsp-seek-played');
+    track.append(this.bufferedBar, this.played);
+    this.seekInput = el('input', '', { type: 'range', min: '0', max: '1000', step: '1', value: '0', 'aria-label': 'Seek' });
+    seek.append(track, this.seekInput);
+
+    // Button bar
+    const bar = el('div', 'tsp-bar');
+    this.playBtn = el('button', 'tsp-btn tsp-play', { type: 'button' });
+    this.muteBtn = el('button', 'tsp-btn tsp-mute', { type: 'button' });
+    this.liveBtn = el('button', 'tsp-btn tsp-live', { type: 'button', 'aria-label': 'Go to live', hidden: '' });
+    this.liveBtn.textContent = 'LIVE';
+
+    if (full) {
+      bar.append(this.playBtn);
+      const volume = el('div', 'tsp-volume');
+      volume.append(this.muteBtn);
+      if (this.options.volume) {
+        this.volumeInput = el('input', '', { type: 'range', min: '0', max: '1', step: '0.05', 'aria-label': 'Volume' });
+        volume.append(this.volumeInput);
+      }
+      this.timeLabel = el('span', 'tsp-time');
+      bar.append(volume, this.timeLabel, this.liveBtn, el('span', 'tsp-spacer'));
+
+      if (this.options.speed) {
+        const { wrap, button, menu } = this.menu('Playback speed');
+        this.speedMenu = { button, menu };
+        bar.append(wrap);
+      }
+      if (this.options.quality) {
+        const { wrap, button, menu } = this.menu('Quality');
+        this.qualityMenu = { wrap, button, menu };
+        bar.append(wrap);
+      }
+      if (this.options.pip && document.pictureInPictureEnabled) {
+        this.pipBtn = el('button', 'tsp-btn tsp-pip', { type: 'button', 'aria-label': 'Picture-in-picture', 'aria-pressed': 'false' });
+        this.pipBtn.innerHTML = icon(ICONS.pip);
+        bar.append(this.pipBtn);
+      }
+      if (this.options.fullscreen && document.fullscreenEnabled) {
+        this.fullscreenBtn = el('button', 'tsp-btn tsp-fullscreen', { type: 'button' });
+        bar.append(this.fullscreenBtn);
+      }
+      this.element.append(seek, bar);
+    } else {
+      bar.append(this.liveBtn, this.playBtn, this.muteBtn);
+      this.element.append(bar, seek);
+    }
+
+    container.append(this.spinner, this.element);
+    this.bindDom();
+    this.bindPlayer();
+    this.renderSpeeds();
+    this.renderQualities();
+    this.update();
+  }
+
+  /** Show the controls (and restart the auto-hide timer) */
+  show(): void {
+    this.element.removeAttribute('data-hidden');
+    this.scheduleHide();
+  }
+
+  /** Hide the controls until the next pointer/keyboard activity */
+  hide(): void {
+    this.closeMenus();
+    this.element.setAttribute('data-hidden', '');
+  }
+
+  /** Re-read everything from player.getState() */
+  update(): void {
+    const state = this.player.getState();
+    this.duration = state.duration;
+    this.setLive(state.isLive);
+    this.setPlaying(!state.paused);
+    this.setMuted(state.muted, state.volume);
+    this.setTime(state.currentTime);
+    this.setBuffered(state.buffered);
+    this.spinner.hidden = !state.loading;
+    this.setFullscreen(state.fullscreen);
+    this.pipBtn?.setAttribute('aria-pressed', String(state.pip));
+    if (this.speedMenu) this.setSpeed(state.playbackRate);
+  }
+
+  /** Remove the controls and all listeners */
+  destroy(): void {
+    if (this.hideTimer) clearTimeout(this.hideTimer);
+    this.hideTimer = null;
+    this.unsubs.forEach((fn) => fn());
+    this.unsubs = [];
+    this.cleanupFns.forEach((fn) => fn());
+    this.cleanupFns = [];
+    this.element.remove();
+    this.spinner.remove();
+    this.container.classList.remove('tsp-container');
+  }
+
+  // ─── Private ───
+
+  private bindPlayer(): void {
+    const p = this.player;
+    this.unsubs.push(
+      p.on('timeupdate', ({ currentTime, duration }) => {
+        this.duration = duration;
+        if (!this.scrubbing) this.setTime(currentTime);
+      }),
+      p.on('volumechange', ({ muted, volume }) => this.setMuted(muted, volume)),
+      p.on('buffered', (progress) => this.setBuffered(progress)),
+      p.on('play', () => {
+        this.setPlaying(true);
+        this.scheduleHide();
+      }),
+      p.on('pause', () => {
+        this.setPlaying(false);
+        this.show();
+      }),
+      p.on('ended', () => {
+        this.setPlaying(false);
+        this.show();
+      }),
+      p.on('loading', (loading) => { this.spinner.hidden = !loading; }),
+      p.on('ready', () => {
+        this.renderQualities();
+        this.update();
+      }),
+      p.on('loadstart', () => {
+        this.duration = 0;
+        this.setLive(false);
+        this.setTime(0);
+        this.setBuffered(0);
+        this.renderQualities();
+      }),
+      p.on('live', () => this.setLive(true)),
+      p.on('behindlive', ({ behind }) => this.liveBtn.toggleAttribute('data-behind', behind)),
+      p.on('qualitychange', () => this.renderQualities()),
+      p.on('ratechange', (rate) => this.setSpeed(rate)),
+      p.on('fullscreen', (active) => this.setFullscreen(active)),
+      p.on('pip', (active) => this.pipBtn?.setAttribute('aria-pressed', String(active))),
+    );
+  }
+
+  private bindDom(): void {
+    const listen = <K extends keyof HTMLElementEventMap>(
+      target: EventTarget,
+      event: K,
+      handler: (e: HTMLElementEventMap[K]) => void,
+    ) => {
+      target.addEventListener(event, handler as EventListener);
+      this.cleanupFns.push(() => target.removeEventListener(event, handler as EventListener));
+    };
+
+    listen(this.playBtn, 'click', () => this.player.togglePlay());
+    listen(this.muteBtn, 'click', () => {
+      const { muted, volume } = this.player.getState();
+      this.player.setMuted(!muted);
+      this.setMuted(!muted, volume);
+    });
+
+    listen(this.liveBtn, 'click', () => this.player.seekToLive());
+
+    listen(this.seekInput, 'input', () => {
+      this.scrubbing = true;
+      const { start, end } = this.range();
+      this.setTime(start + (Number(this.seekInput.value) / 1000) * (end - start), true);
+    });
+    listen(this.seekInput, 'change', () => {
+      this.scrubbing = false;
+      const { start, end } = this.range();
+      if (end > start) this.player.seek(start + (Number(this.seekInput.value) / 1000) * (end - start));
+    });
+
+    if (this.volumeInput) {
+      const input = this.volumeInput;
+      listen(input, 'input', () => {
+        const volume = Number(input.value);
+        this.player.setVolume(volume);
+        this.player.setMuted(volume === 0);
+        this.setMuted(volume === 0, volume);
+      });
+    }
+
+    if (this.pipBtn) listen(this.pipBtn, 'click', () => this.player.togglePip());
+    // Fullscreen the container so the controls stay visible
+    if (this.fullscreenBtn) listen(this.fullscreenBtn, 'click', () => this.player.toggleFullscreen(this.container));
+
+    // Auto-hide: any activity over the container shows the controls again
+    const activity = () => this.show();
+    listen(this.container, 'pointermove', activity);
+    listen(this.container, 'pointerdown', activity);
+    listen(this.container, 'focusin', activity);
+    listen(this.container, 'pointerleave', () => {
+      if (!this.player.getState().paused && this.options.autoHide > 0) this.hide();
+    });
+
+    // Close menus on outside clicks
+    listen(document, 'pointerdown', (e) => {
+      if (!(e.target instanceof Node) || !this.element.contains(e.target)) this.closeMenus();
+    });
+  }
+
+  private menu(label: string) {
+    const wrap = el('div', 'tsp-menu-wrap');
+    const button = el('button', 'tsp-btn', { type: 'button', 'aria-label': label, 'aria-haspopup': 'menu', 'aria-expanded': 'false' });
+    const menu = el('div', 'tsp-menu', { role: 'menu', 'aria-label': label, hidden: '' });
+    wrap.append(button, menu);
+    const toggle = () => {
+      const open = menu.hidden;
+      this.closeMenus();
+      menu.hidden = !open;
+      button.setAttribute('aria-expanded', String(open));
+      if (open) (menu.querySelector('[aria-checked="true"]') as HTMLElement | null)?.focus();
+    };
+    button.addEventListener('click', toggle);
+    this.cleanupFns.push(() => button.removeEventListener('click', toggle));
+    return { wrap, button, menu };
+  }
+
+  private menuItems(menu: HTMLDivElement, items: { label: string; checked: boolean; select: () => void }[]): void {
+    menu.textContent = '';
+    for (const item of items) {
+      const option = el('button', '', { type: 'button', role: 'menuitemradio', 'aria-checked': String(item.checked) });
+      option.textContent = item.label;
+      option.addEventListener('click', () => {
+        item.select();
+        this.closeMenus();
+      });
+      menu.append(option);
+    }
+  }
+
+  private closeMenus(): void {
+    for (const entry of [this.speedMenu, this.qualityMenu]) {
+      if (!entry || entry.menu.hidden) continue;
+      entry.menu.hidden = true;
+      entry.button.setAttribute('aria-expanded', 'false');
+    }
+  }
+
+  private renderSpeeds(): void {
+    if (!this.speedMenu) return;
+    const current = this.player.getState().playbackRate;
+    this.menuItems(this.speedMenu.menu, this.options.speeds.map((rate) => ({
+      label: rate === 1 ? 'Normal' : `${rate}×`,
+      checked: rate === current,
+      select: () => this.player.setPlaybackRate(rate),
+    })));
+    this.speedMenu.button.textContent = `${current}×`;
+  }
+
+  private setSpeed(rate: number): void {
+    if (!this.speedMenu) return;
+    this.speedMenu.button.textContent = `${rate}×`;
+    this.speedMenu.menu.querySelectorAll('button').forEach((option, i) => {
+      option.setAttribute('aria-checked', String(this.options.speeds[i] === rate));
+    });
+  }
+
+  private renderQualities(): void {
+    if (!this.qualityMenu) return;
+    const levels = this.player.getQualities();
+    // Native HLS picks quality itself — nothing to offer
+    this.qualityMenu.wrap.hidden = levels.length < 2;
+    if (levels.length < 2) return;
+
+    const selected = this.player.getCurrentQuality();
+    const auto = this.player.hlsInstance?.autoLevelEnabled ?? selected === -1;
+    const sorted = [...levels].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+    this.menuItems(this.qualityMenu.menu, [
+      ...sorted.map((level) => ({
+        label: `${level.height}p`,
+        checked: !auto && level.index === selected,
+        select: () => {
+          this.player.setQuality(level.index);
+          this.renderQualities();
+        },
+      })),
+      {
+        label: 'Auto',
+        checked: auto,
+        select: () => {
+          this.player.setQuality(-1);
+          this.renderQualities();
+        },
+      },
+    ]);
+    const playing = levels[selected];
+    this.qualityMenu.button.textContent = auto
+      ? (playing ? `Auto (${playing.height}p)` : 'Auto')
+      : `${playing?.height ?? ''}p`;
+  }
+
+  private setPlaying(playing: boolean): void {
+    this.playBtn.innerHTML = icon(playing ? ICONS.pause : ICONS.play);
+    this.playBtn.setAttribute('aria-label', playing ? 'Pause' : 'Play');
+    if (!playing) this.element.removeAttribute('data-hidden');
+  }
+
+  private setMuted(muted: boolean, volume: number): void {
+    const silent = muted || volume === 0;
+    this.muteBtn.innerHTML = icon(silent ? ICONS.muted : ICONS.volume);
+    this.muteBtn.setAttribute('aria-label', silent ? 'Unmute' : 'Mute');
+    if (this.volumeInput) this.volumeInput.value = String(muted ? 0 : volume);
+  }
+
+  /** Seekable span the bar maps onto: the DVR window for live streams, 0–duration for VOD */
+  private range(): { start: number; end: number } {
+    if (this.live) return this.player.getState().dvrWindow ?? { start: 0, end: 0 };
+    return { start: 0, end: this.duration };
+  }
+
+  private setTime(time: number, preview = false): void {
+    const { start, end } = this.range();
+    const fraction = end > start ? Math.max(0, Math.min(1, (time - start) / (end - start))) : 0;
+    this.played.style.width = `${fraction * 100}%`;
+    if (!preview) this.seekInput.value = String(Math.round(fraction * 1000));
+    if (this.live) {
+      // Live: show the distance to the live edge instead of a position
+      const behind = Math.max(0, end - time);
+      this.seekInput.setAttribute('aria-valuetext', `${formatTime(behind)} behind live`);
+      if (this.timeLabel) this.timeLabel.textContent = behind >= 1 ? `-${formatTime(behind)}` : '';
+      return;
+    }
+    this.seekInput.setAttribute('aria-valuetext', `${formatTime(time)} of ${formatTime(end)}`);
+    if (this.timeLabel) this.timeLabel.textContent = `${formatTime(time)} / ${formatTime(end)}`;
+  }
+
+  private setLive(live: boolean): void {
+    this.live = live;
+    this.liveBtn.hidden = !live;
+    if (!live) this.liveBtn.removeAttribute('data-behind');
+  }
+
+  private setBuffered(progress: number): void {
+    this.bufferedBar.style.width = `${Math.min(1, progress) * 100}%`;
+  }
+
+  private setFullscreen(active: boolean): void {
+    if (!this.fullscreenBtn) return;
+    this.fullscreenBtn.innerHTML = icon(active ? ICONS.exitFullscreen : ICONS.fullscreen);
+    this.fullscreenBtn.setAttribute('aria-label', active ? 'Exit fullscreen' : 'Fullscreen');
+  }
+
+  private scheduleHide(): void {
+    if (this.hideTimer) clearTimeout(this.hideTimer);
+    this.hideTimer = null;
+    if (this.options.autoHide <= 0 || this.player.getState().paused) return;
+    this.hideTimer = setTimeout(() => this.hide(), this.options.autoHide);
+  }
+}
+
+/**
+ * Render the built-in controls over `container` (the element wrapping the <video>).
+ *
+ * @example
+ * ```js
+ * const controls = createControls(player, document.querySelector('.player'), { layout: 'full' });
+ * // Theme: .player { --tsp-accent: #00b4ff; }
+ * controls.destroy();
+ * ```
+ */
+export function createControls(player: Player, container: HTMLElement, options?: ControlsOptions): Controls {
+  return new Controls(player, container, options);
+}
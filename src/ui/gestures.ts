@@ -0,0 +1,243 @@
+import type { Player } from '../core/player';
+import { Emitter } from '../core/emitter';
+import type { GestureOptions, GestureEvents } from '../types';
+
+const DEFAULT_OPTIONS: Required<GestureOptions> = {
+  tap: true,
+  doubleTapSeek: 10,
+  doubleTapDelay: 300,
+  longPressRate: 2,
+  longPressDelay: 500,
+  swipe: false,
+  swipeThreshold: 60,
+  swipeVelocity: 0.5,
+  moveTolerance: 10,
+};
+
+/** Presses on these are left to the element itself (e.g. createControls() buttons) */
+const INTERACTIVE = 'button, input, select, textarea, a[href], [role="button"], [role="menu"], [role="slider"]';
+
+interface Press {
+  pointerId: number;
+  pointerType: string;
+  x: number;
+  y: number;
+  time: number;
+  /** Moved past moveTolerance — no longer a tap or long press */
+  moved: boolean;
+}
+
+/**
+ * Pointer Events gesture layer for a player element.
+ * Use `createGestureController()` to create one.
+ */
+export class GestureController extends Emitter<GestureEvents> {
+  private options: Required<GestureOptions>;
+  private press: Press | null = null;
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Rate to restore when the active long press ends (null = no long press) */
+  private longPressRestore: number | null = null;
+  private tapTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Running double-tap seek series */
+  private seekSeries: { side: 'left' | 'right'; seconds: number; until: number } | null = null;
+  private cleanupFns: (() => void)[] = [];
+
+  constructor(
+    private player: Player,
+    private element: HTMLElement,
+    options?: GestureOptions,
+  ) {
+    super('[3Speak Gestures]');
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    const listen = <K extends keyof HTMLElementEventMap>(type: K, fn: (e: HTMLElementEventMap[K]) => void) => {
+      element.addEventListener(type, fn);
+      this.cleanupFns.push(() => element.removeEventListener(type, fn));
+    };
+    listen('pointerdown', (e) => this.onPointerDown(e));
+    listen('pointermove', (e) => this.onPointerMove(e));
+    listen('pointerup', (e) => this.onPointerUp(e));
+    // The browser took the pointer for scrolling/zooming — not our gesture
+    listen('pointercancel', (e) => { if (e.pointerId === this.press?.pointerId) this.reset(); });
+    // Holding a finger down would otherwise open the context menu mid long-press
+    listen('contextmenu', (e) => { if (this.longPressRestore !== null) e.preventDefault(); });
+
+    // Scrolling stays native unless swipe mode opts in to owning vertical pans
+    const style = element.style as CSSStyleDeclaration & { webkitTouchCallout?: string };
+    const original = { touchAction: style.touchAction, userSelect: style.userSelect, callout: style.webkitTouchCallout };
+    style.touchAction = this.options.swipe ? 'pan-x pinch-zoom' : 'manipulation';
+    style.userSelect = 'none';
+    style.webkitTouchCallout = 'none';
+    this.cleanupFns.push(() => {
+      style.touchAction = original.touchAction;
+      style.userSelect = original.userSelect;
+      style.webkitTouchCallout = original.callout;
+    });
+  }
+
+  /** Remove listeners and restore the element's styles and playback rate */
+  destroy(): void {
+    this.reset();
+    if (this.tapTimer) clearTimeout(this.tapTimer);
+    this.tapTimer = null;
+    this.seekSeries = null;
+    this.cleanupFns.forEach((fn) => fn());
+    this.cleanupFns = [];
+    this.removeAllListeners();
+  }
+
+  // ─── Pointer handling ───
+
+  private onPointerDown(e: PointerEvent): void {
+    if (!e.isPrimary || e.button !== 0 || this.press) return;
+    if (e.target instanceof Element && e.target !== this.element && e.target.closest(INTERACTIVE)) return;
+
+    this.press = {
+      pointerId: e.pointerId,
+      pointerType: e.pointerType,
+      x: e.clientX,
+      y: e.clientY,
+      time: Date.now(),
+      moved: false,
+    };
+    // Keep receiving moves/up for a mouse dragged outside the element
+    if (e.pointerType === 'mouse') {
+      try { this.element.setPointerCapture(e.pointerId); } catch { /* pointer already gone */ }
+    }
+
+    const { longPressRate, longPressDelay } = this.options;
+    if (longPressRate > 0) {
+      this.longPressTimer = setTimeout(() => this.startLongPress(), longPressDelay);
+    }
+  }
+
+  private onPointerMove(e: PointerEvent): void {
+    const press = this.press;
+    if (!press || e.pointerId !== press.pointerId || press.moved) return;
+    if (Math.hypot(e.clientX - press.x, e.clientY - press.y) <= this.options.moveTolerance) return;
+
+    press.moved = true;
+    // A long press in progress survives small drifts; one that hasn't started is cancelled
+    if (this.longPressTimer) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+
+  private onPointerUp(e: PointerEvent): void {
+    const press = this.press;
+    if (!press || e.pointerId !== press.pointerId) return;
+
+    const wasLongPress = this.longPressRestore !== null;
+    this.reset();
+    if (wasLongPress) return;
+
+    const dx = e.clientX - press.x;
+    const dy = e.clientY - press.y;
+    if (!press.moved) {
+      this.handleTap(e.clientX);
+      return;
+    }
+
+    // Swipes are touch/pen only — a mouse drag is usually a text selection or scrollbar
+    const { swipe, swipeThreshold, swipeVelocity, moveTolerance } = this.options;
+    if (!swipe || press.pointerType === 'mouse' || Math.abs(dy) <= Math.abs(dx)) return;
+    const velocity = Math.abs(dy) / Math.max(1, Date.now() - press.time);
+    if (Math.abs(dy) >= swipeThreshold || (Math.abs(dy) >= moveTolerance * 2 && velocity >= swipeVelocity)) {
+      this.emit(dy < 0 ? 'next' : 'previous');
+    }
+  }
+
+  // ─── Gestures ───
+
+  private handleTap(clientX: number): void {
+    const { doubleTapSeek, doubleTapDelay } = this.options;
+    if (doubleTapSeek <= 0) {
+      this.singleTap();
+      return;
+    }
+
+    const rect = this.element.getBoundingClientRect();
+    const side = clientX - rect.left < rect.width / 2 ? 'left' : 'right';
+    const now = Date.now();
+
+    // Keep seeking while taps on the same side keep coming
+    const series = this.seekSeries;
+    if (series && now < series.until && series.side === side) {
+      series.until = now + doubleTapDelay;
+      this.seek(series);
+      return;
+    }
+    this.seekSeries = null;
+
+    if (this.tapTimer) {
+      clearTimeout(this.tapTimer);
+      this.tapTimer = null;
+      this.seekSeries = { side, seconds: 0, until: now + doubleTapDelay };
+      this.seek(this.seekSeries);
+      return;
+    }
+    this.tapTimer = setTimeout(() => {
+      this.tapTimer = null;
+      this.singleTap();
+    }, doubleTapDelay);
+  }
+
+  private singleTap(): void {
+    if (this.options.tap) this.player.togglePlay();
+    this.emit('tap');
+  }
+
+  private seek(series: { side: 'left' | 'right'; seconds: number }): void {
+    const { currentTime, duration } = this.player.getState();
+    const step = this.options.doubleTapSeek;
+    const target = currentTime + (series.side === 'left' ? -step : step);
+    this.player.seek(Math.max(0, duration > 0 ? Math.min(target, duration) : target));
+    series.seconds += step;
+    this.emit('doubletap', { side: series.side, seconds: series.seconds });
+  }
+
+  private startLongPress(): void {
+    this.longPressTimer = null;
+    this.longPressRestore = this.player.getState().playbackRate;
+    this.player.setPlaybackRate(this.options.longPressRate);
+    this.emit('longpress', true);
+  }
+
+  /** Forget the current press, ending a long press if one is active */
+  private reset(): void {
+    if (this.longPressTimer) clearTimeout(this.longPressTimer);
+    this.longPressTimer = null;
+    this.press = null;
+    if (this.longPressRestore !== null) {
+      this.player.setPlaybackRate(this.longPressRestore);
+      this.longPressRestore = null;
+      this.emit('longpress', false);
+    }
+  }
+}
+
+/**
+ * Touch gestures for shorts-style players, built on Pointer Events:
+ * tap toggles play, double-tap left/right seeks, press-and-hold plays at 2×,
+ * and, with `swipe: true`, vertical swipes emit `next` / `previous` for your
+ * feed or pool to act on.
+ *
+ * Presses on buttons and sliders inside the element (e.g. createControls())
+ * are ignored. Scrolling and pinch-zoom stay native, except that swipe mode
+ * replaces native vertical scrolling over the element.
+ *
+ * @example
+ * ```js
+ * const gestures = createGestureController(player, slotElement, { swipe: true });
+ * gestures.on('next', () => pool.activate(ids[++index]));
+ * gestures.on('previous', () => pool.activate(ids[--index]));
+ * ```
+ */
+export function createGestureController(
+  player: Player,
+  element: HTMLElement,
+  options?: GestureOptions,
+): GestureController {
+  return new GestureController(player, element, options);
+}
@@ -0,0 +1,278 @@
+import type { Player } from '../core/player';
+import type { KeyboardAction, KeyboardOptions, EventUnsubscribe } from '../types';
+import { spokenTime } from './format';
+
+const DEFAULT_KEYMAP: Record<KeyboardAction, string[]> = {
+  togglePlay: [' ', 'k'],
+  rewind: ['j'],
+  fastForward: ['l'],
+  seekBackward: ['ArrowLeft'],
+  seekForward: ['ArrowRight'],
+  volumeUp: ['ArrowUp'],
+  volumeDown: ['ArrowDown'],
+  toggleMute: ['m'],
+  toggleFullscreen: ['f'],
+  togglePip: ['i'],
+  slower: ['<'],
+  faster: ['>'],
+  seekPercent: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+};
+
+const DEFAULT_OPTIONS: Required<Omit<KeyboardOptions, 'keymap' | 'when'>> = {
+  scope: 'container',
+  jumpStep: 10,
+  seekStep: 5,
+  volumeStep: 0.05,
+  speeds: [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2],
+  announce: true,
+};
+
+/** Keys a focused form control handles itself */
+const NATIVE_KEYS: Record<string, string[]> = {
+  range: ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'PageUp', 'PageDown'],
+  button: [' ', 'Enter'],
+};
+
+const VISUALLY_HIDDEN =
+  'position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;' +
+  'overflow:hidden;clip:rect(0 0 0 0);clip-path:inset(50%);white-space:nowrap;';
+
+/** Single printable keys match case-insensitively ('K' with caps lock still toggles) */
+function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/** Whether the focused element should keep this key for itself */
+function isNativeKey(target: EventTarget | null, key: string): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true;
+  }
+  if (target instanceof HTMLInputElement) {
+    if (target.type === 'range') return NATIVE_KEYS.range.includes(key);
+    if (target.type === 'button' || target.type === 'checkbox') return NATIVE_KEYS.button.includes(key);
+    return true;
+  }
+  if (target instanceof HTMLButtonElement || target.getAttribute('role') === 'button') {
+    return NATIVE_KEYS.button.includes(key);
+  }
+  return false;
+}
+
+/**
+ * Keyboard shortcuts and screen-reader announcements for a player.
+ * Use `createKeyboardController()` to create one.
+ */
+export class KeyboardController {
+  private options: Required<Omit<KeyboardOptions, 'keymap' | 'when'>> & Pick<KeyboardOptions, 'when'>;
+  private keys = new Map<string, KeyboardAction>();
+  private liveRegion: HTMLDivElement | null = null;
+  private announceTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubs: EventUnsubscribe[] = [];
+  private cleanupFns: (() => void)[] = [];
+
+  constructor(
+    private player: Player,
+    private container: HTMLElement,
+    options: KeyboardOptions = {},
+  ) {
+    const { keymap, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+
+    const merged = { ...DEFAULT_KEYMAP, ...keymap };
+    for (const action of Object.keys(merged) as KeyboardAction[]) {
+      for (const key of merged[action] || []) this.keys.set(normalizeKey(key), action);
+    }
+
+    const target: HTMLElement | Document = this.options.scope === 'document' ? document : container;
+    const onKeyDown = (e: Event) => this.onKeyDown(e as KeyboardEvent);
+    target.addEventListener('keydown', onKeyDown);
+    this.cleanupFns.push(() => target.removeEventListener('keydown', onKeyDown));
+
+    // The container must be focusable to receive keys
+    if (this.options.scope === 'container' && !container.hasAttribute('tabindex')) {
+      container.setAttribute('tabindex', '0');
+      this.cleanupFns.push(() => container.removeAttribute('tabindex'));
+    }
+    if (!container.hasAttribute('role') && !container.hasAttribute('aria-label')) {
+      container.setAttribute('role', 'region');
+      container.setAttribute('aria-label', 'Video player');
+      this.cleanupFns.push(() => {
+        container.removeAttribute('role');
+        container.removeAttribute('aria-label');
+      });
+    }
+
+    if (this.options.announce) this.bindAnnouncements();
+  }
+
+  /** Say `message` through the live region (no-op when announce is off) */
+  announce(message: string): void {
+    const region = this.liveRegion;
+    if (!region) return;
+    // Clear first so repeating the same message is announced again
+    region.textContent = '';
+    if (this.announceTimer) clearTimeout(this.announceTimer);
+    this.announceTimer = setTimeout(() => {
+      region.textContent = message;
+    }, 50);
+  }
+
+  /** Run an action as if its key had been pressed (`digit` for seekPercent) */
+  run(action: KeyboardAction, digit = 0): void {
+    const p = this.player;
+    const state = p.getState();
+    const { jumpStep, seekStep, volumeStep, speeds } = this.options;
+
+    switch (action) {
+      case 'togglePlay':
+        p.togglePlay();
+        break;
+      case 'rewind':
+        this.seekBy(-jumpStep);
+        break;
+      case 'fastForward':
+        this.seekBy(jumpStep);
+        break;
+      case 'seekBackward':
+        this.seekBy(-seekStep);
+        break;
+      case 'seekForward':
+        this.seekBy(seekStep);
+        break;
+      case 'volumeUp':
+      case 'volumeDown': {
+        const delta = action === 'volumeUp' ? volumeStep : -volumeStep;
+        const volume = Math.round(Math.max(0, Math.min(1, (state.muted ? 0 : state.volume) + delta)) * 100) / 100;
+        p.setVolume(volume);
+        p.setMuted(volume === 0);
+        break;
+      }
+      case 'toggleMute':
+        p.setMuted(!state.muted);
+        break;
+      case 'toggleFullscreen':
+        p.toggleFullscreen(this.container);
+        break;
+      case 'togglePip':
+        p.togglePip();
+        break;
+      case 'slower':
+      case 'faster': {
+        const rate = state.playbackRate;
+        const next = action === 'faster'
+          ? speeds.find((s) => s > rate)
+          : [...speeds].reverse().find((s) => s < rate);
+        if (next !== undefined) p.setPlaybackRate(next);
+        break;
+      }
+      case 'seekPercent': {
+        // Live streams: a share of the DVR window rather than of the duration
+        const dvr = state.dvrWindow;
+        if (state.isLive) {
+          if (dvr) this.seekTo(dvr.start + ((dvr.end - dvr.start) * digit) / 10);
+        } else if (state.duration > 0) {
+          this.seekTo((state.duration * digit) / 10);
+        }
+        break;
+      }
+    }
+  }
+
+  /** Remove listeners, the live region and any attributes added to the container */
+  destroy(): void {
+    if (this.announceTimer) clearTimeout(this.announceTimer);
+    this.announceTimer = null;
+    this.unsubs.forEach((fn) => fn());
+    this.unsubs = [];
+    this.cleanupFns.forEach((fn) => fn());
+    this.cleanupFns = [];
+    this.liveRegion?.remove();
+    this.liveRegion = null;
+  }
+
+  // ─── Private ───
+
+  private onKeyDown(e: KeyboardEvent): void {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (this.options.when && !this.options.when()) return;
+    if (isNativeKey(e.target, e.key)) return;
+
+    const action = this.keys.get(normalizeKey(e.key));
+    if (!action) return;
+    e.preventDefault();
+    this.run(action, action === 'seekPercent' ? Number(e.key) || 0 : 0);
+  }
+
+  private seekBy(delta: number): void {
+    this.seekTo(this.player.getState().currentTime + delta);
+  }
+
+  private seekTo(time: number): void {
+    const { duration, isLive, dvrWindow } = this.player.getState();
+    if (isLive) {
+      if (!dvrWindow) return;
+      const target = Math.max(dvrWindow.start, Math.min(time, dvrWindow.end));
+      this.player.seek(target);
+      this.announce(`${spokenTime(dvrWindow.end - target)} behind live`);
+      return;
+    }
+    const target = Math.max(0, duration > 0 ? Math.min(time, duration) : time);
+    this.player.seek(target);
+    this.announce(duration > 0 ? `${spokenTime(target)} of ${spokenTime(duration)}` : spokenTime(target));
+  }
+
+  private bindAnnouncements(): void {
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.setAttribute('role', 'status');
+    this.liveRegion.setAttribute('aria-live', 'polite');
+    this.liveRegion.setAttribute('aria-atomic', 'true');
+    this.liveRegion.style.cssText = VISUALLY_HIDDEN;
+    this.container.append(this.liveRegion);
+
+    const p = this.player;
+    let ended = false;
+    this.unsubs.push(
+      p.on('play', () => {
+        ended = false;
+        this.announce('Playing');
+      }),
+      // 'ended' follows the final 'pause'; let it replace "Paused"
+      p.on('pause', () => { if (!ended) this.announce('Paused'); }),
+      p.on('ended', () => {
+        ended = true;
+        this.announce('Ended');
+      }),
+      p.on('volumechange', ({ volume, muted }) => {
+        this.announce(muted || volume === 0 ? 'Muted' : `Volume ${Math.round(volume * 100)}%`);
+      }),
+      p.on('ratechange', (rate) => this.announce(rate === 1 ? 'Normal speed' : `Speed ${rate}x`)),
+      p.on('fullscreen', (active) => this.announce(active ? 'Fullscreen' : 'Exited fullscreen')),
+      p.on('pip', (active) => this.announce(active ? 'Picture-in-picture on' : 'Picture-in-picture off')),
+      p.on('error', (err) => { if (err.fatal) this.announce('Playback error'); }),
+    );
+  }
+}
+
+/**
+ * Opt-in keyboard shortcuts for a player, plus ARIA live-region announcements
+ * ("Paused", "Volume 40%") kept in sync with player events.
+ *
+ * By default keys are only handled while focus is inside `container`, so
+ * several players on a page (e.g. a PlayerPool feed) don't all react.
+ *
+ * @example
+ * ```js
+ * const keyboard = createKeyboardController(player, document.querySelector('.player'));
+ *
+ * // Page-wide shortcuts for whichever pool player is active
+ * createKeyboardController(player, el, { scope: 'document', when: () => pool.activePlayerId === id });
+ * ```
+ */
+export function createKeyboardController(
+  player: Player,
+  container: HTMLElement,
+  options?: KeyboardOptions,
+): KeyboardController {
+  return new KeyboardController(player, container, options);
+}
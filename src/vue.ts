@@ -0,0 +1,314 @@
+/**
+ * Vue 3 adapter for @mantequilla-soft/3speak-player
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { usePlayer } from '@mantequilla-soft/3speak-player/vue';
+ *
+ * const props = defineProps(['author', 'permlink']);
+ * const { videoRef, state, togglePlay } = usePlayer({
+ *   source: () => `${props.author}/${props.permlink}`,
+ *   muted: true,
+ *   loop: true,
+ *   autoPlay: true,
+ * });
+ * </script>
+ *
+ * <template>
+ *   <video ref="videoRef" playsinline @click="togglePlay" />
+ *   <span>{{ state.currentTime.toFixed(0) }}s</span>
+ * </template>
+ * ```
+ */
+import { ref, shallowRef, watch, toValue, getCurrentScope, onScopeDispose } from 'vue';
+import type { Ref, ShallowRef, MaybeRefOrGetter } from 'vue';
+import { Player } from './core/player';
+import { PlayerPool } from './core/pool';
+import type {
+  PlayerConfig,
+  PlayerState,
+  PlayerEvents,
+  VideoSource,
+  QualityLevel,
+  AudioTrackInfo,
+  Thumbnail,
+  TextTrackInfo,
+  PoolSettings,
+} from './types';
+
+// ─── usePlayer ───
+
+export interface UsePlayerOptions extends PlayerConfig {
+  /**
+   * Video to play: a ref ("author/permlink") or source object, as a value, ref or getter.
+   * The video reloads whenever it changes (sources compare by URL).
+   */
+  source?: MaybeRefOrGetter<string | VideoSource | null | undefined>;
+  /** Auto-play after ready */
+  autoPlay?: boolean;
+  /** Event callbacks */
+  onReady?: PlayerEvents['ready'];
+  onPlay?: PlayerEvents['play'];
+  onPause?: PlayerEvents['pause'];
+  onEnded?: PlayerEvents['ended'];
+  onTimeUpdate?: PlayerEvents['timeupdate'];
+  onError?: PlayerEvents['error'];
+}
+
+export interface UsePlayerReturn {
+  /** Template ref for your <video> element (`<video ref="videoRef">`) */
+  videoRef: Ref<HTMLVideoElement | null>;
+  /** Current player state (reactive) */
+  state: Readonly<ShallowRef<PlayerState>>;
+  /** The underlying Player instance */
+  player: Player;
+  /** Load a video */
+  load: (refOrSource: string | VideoSource) => Promise<void>;
+  play: () => Promise<void>;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (time: number) => void;
+  setMuted: (muted: boolean) => void;
+  setVolume: (volume: number) => void;
+  setLoop: (loop: boolean) => void;
+  togglePip: () => Promise<void>;
+  toggleFullscreen: () => Promise<void>;
+  setQuality: (index: number) => void;
+  getQualities: () => QualityLevel[];
+  getAudioTracks: () => AudioTrackInfo[];
+  setAudioTrack: (index: number) => void;
+  getThumbnailAt: (time: number) => Thumbnail | null;
+  loadThumbnails: () => Promise<boolean>;
+  getTextTracks: () => TextTrackInfo[];
+  setTextTrack: (id: string | null) => void;
+  setAudioOnly: (enabled: boolean) => void;
+  enableAutopause: () => void;
+  disableAutopause: () => void;
+  setPlaybackRate: (rate: number) => void;
+  seekToLive: () => void;
+  clearResumePosition: (ref?: string) => Promise<void>;
+}
+
+const EMPTY_STATE: PlayerState = {
+  currentTime: 0,
+  duration: 0,
+  paused: true,
+  muted: true,
+  volume: 1,
+  ready: false,
+  loading: false,
+  isVertical: null,
+  videoWidth: 0,
+  videoHeight: 0,
+  buffered: 0,
+  pip: false,
+  fullscreen: false,
+  audioOnly: false,
+  playbackRate: 1,
+  textTrack: null,
+  isLive: false,
+  liveEdge: null,
+  latency: null,
+  dvrWindow: null,
+};
+
+/** Identity of a source for change detection */
+function sourceKey(source: string | VideoSource | null | undefined): string | null {
+  if (!source) return null;
+  return typeof source === 'string' ? source.replace(/^@/, '') : source.url;
+}
+
+/**
+ * Vue composable for a single 3Speak video player.
+ * Call from `setup()`; the player is destroyed when the component unmounts.
+ */
+export function usePlayer(options: UsePlayerOptions = {}): UsePlayerReturn {
+  const {
+    source,
+    autoPlay,
+    onReady,
+    onPlay,
+    onPause,
+    onEnded,
+    onTimeUpdate,
+    onError,
+    ...config
+  } = options;
+
+  const player = new Player(config);
+  const videoRef = ref<HTMLVideoElement | null>(null);
+  const state = shallowRef<PlayerState>(EMPTY_STATE);
+  const patch = (changes: Partial<PlayerState>) => {
+    state.value = { ...state.value, ...changes };
+  };
+
+  const unsubs = [
+    player.on('ready', (info) => {
+      state.value = player.getState();
+      onReady?.(info);
+      if (autoPlay) player.play().catch(() => {});
+    }),
+    player.on('timeupdate', (info) => {
+      state.value = player.getState();
+      onTimeUpdate?.(info);
+    }),
+    player.on('play', () => {
+      patch({ paused: false });
+      onPlay?.();
+    }),
+    player.on('pause', () => {
+      patch({ paused: true });
+      onPause?.();
+    }),
+    player.on('ended', () => onEnded?.()),
+    player.on('error', (err) => onError?.(err)),
+    player.on('loading', (loading) => patch({ loading })),
+    player.on('volumechange', ({ volume, muted }) => patch({ volume, muted })),
+    player.on('buffered', (buffered) => patch({ buffered })),
+    player.on('pip', (pip) => patch({ pip })),
+    player.on('fullscreen', (fullscreen) => patch({ fullscreen })),
+    player.on('ratechange', (rate) => patch({ playbackRate: rate })),
+    player.on('texttrackchange', (id) => patch({ textTrack: id })),
+    player.on('live', () => { state.value = player.getState(); }),
+    player.on('behindlive', () => { state.value = player.getState(); }),
+  ];
+
+  const loadCurrent = () => {
+    const current = toValue(source);
+    if (!current || !player.element) return;
+    // Failures surface through the error event; superseded loads reject with ABORTED
+    player.load(current).catch(() => {});
+  };
+
+  // Attach when the template ref is set, detach when the element goes away
+  watch(videoRef, (element) => {
+    if (element) {
+      player.attach(element);
+      loadCurrent();
+    } else {
+      player.detach();
+      state.value = EMPTY_STATE;
+    }
+  }, { flush: 'post' });
+
+  // Reload when the source changes
+  watch(() => sourceKey(toValue(source)), (key, previous) => {
+    if (key && key !== previous) loadCurrent();
+  });
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      unsubs.forEach((fn) => fn());
+      player.destroy();
+    });
+  }
+
+  return {
+    videoRef,
+    state,
+    player,
+    load: async (refOrSource) => { await player.load(refOrSource); },
+    play: () => player.play(),
+    pause: () => player.pause(),
+    togglePlay: () => player.togglePlay(),
+    seek: (time) => player.seek(time),
+    setMuted: (muted) => player.setMuted(muted),
+    setVolume: (volume) => player.setVolume(volume),
+    setLoop: (loop) => player.setLoop(loop),
+    togglePip: () => player.togglePip(),
+    toggleFullscreen: () => player.toggleFullscreen(),
+    setQuality: (index) => player.setQuality(index),
+    getQualities: () => player.getQualities(),
+    getAudioTracks: () => player.getAudioTracks(),
+    setAudioTrack: (index) => player.setAudioTrack(index),
+    getThumbnailAt: (time) => player.getThumbnailAt(time),
+    loadThumbnails: () => player.loadThumbnails(),
+    getTextTracks: () => player.getTextTracks(),
+    setTextTrack: (id) => player.setTextTrack(id),
+    setAudioOnly: (enabled) => {
+      player.setAudioOnly(enabled);
+      patch({ audioOnly: enabled });
+    },
+    enableAutopause: () => player.enableAutopause(),
+    disableAutopause: () => player.disableAutopause(),
+    setPlaybackRate: (rate) => player.setPlaybackRate(rate),
+    seekToLive: () => player.seekToLive(),
+    clearResumePosition: (ref) => player.clearResumePosition(ref),
+  };
+}
+
+// ─── usePlayerPool ───
+
+export interface UsePlayerPoolOptions extends PlayerConfig {}
+
+export interface UsePlayerPoolReturn {
+  /** The underlying PlayerPool instance */
+  pool: PlayerPool;
+  /** Ids of the players in the pool */
+  ids: Readonly<ShallowRef<string[]>>;
+  /** Id of the active player */
+  activeId: Readonly<ShallowRef<string | null>>;
+  /** Shared settings applied to every player */
+  settings: Readonly<ShallowRef<PoolSettings>>;
+  /** Change shared settings for current and future players */
+  updateSettings: (changes: Partial<PoolSettings>) => void;
+  /** Add a player to the pool */
+  add: (id: string, element: HTMLVideoElement, source?: VideoSource) => Player;
+  /** Remove a player */
+  remove: (id: string) => void;
+  /** Activate a player (play it, pause others); rejects when play() is blocked, e.g. by autoplay policy */
+  activate: (id: string) => Promise<void>;
+  /** Pause all */
+  pauseAll: () => void;
+  /** Set muted on all */
+  setAllMuted: (muted: boolean) => void;
+  /** Set loop on all */
+  setAllLoop: (loop: boolean) => void;
+  /** Keep only these ids, destroy rest */
+  retainOnly: (ids: string[]) => void;
+  /** Prefetch an HLS manifest */
+  prefetch: (hlsUrl: string) => Promise<void>;
+}
+
+/**
+ * Vue composable for managing a pool of 3Speak video players.
+ * Ideal for shorts/feed UIs. `ids`, `activeId` and `settings` update on pool events;
+ * the pool is destroyed when the component unmounts.
+ */
+export function usePlayerPool(options: UsePlayerPoolOptions = {}): UsePlayerPoolReturn {
+  const pool = new PlayerPool(options);
+  const ids = shallowRef(pool.ids);
+  const activeId = shallowRef(pool.activePlayerId);
+  const settings = shallowRef(pool.settings);
+
+  const unsubs = [
+    pool.on('playeradded', () => { ids.value = pool.ids; }),
+    pool.on('playerremoved', () => { ids.value = pool.ids; }),
+    pool.on('activechange', ({ id }) => { activeId.value = id; }),
+    pool.on('settingschange', () => { settings.value = pool.settings; }),
+  ];
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      unsubs.forEach((fn) => fn());
+      pool.destroy();
+    });
+  }
+
+  return {
+    pool,
+    ids,
+    activeId,
+    settings,
+    updateSettings: (changes) => pool.updateSettings(changes),
+    add: (id, el, src) => pool.add(id, el, src),
+    remove: (id) => pool.remove(id),
+    activate: (id) => pool.activate(id),
+    pauseAll: () => pool.pauseAll(),
+    setAllMuted: (muted) => pool.setAllMuted(muted),
+    setAllLoop: (loop) => pool.setAllLoop(loop),
+    retainOnly: (ids) => pool.retainOnly(ids),
+    prefetch: (url) => pool.prefetch(url),
+  };
+}
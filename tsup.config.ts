@@ -1,4 +1,23 @@
 import { defineConfig } from 'tsup';
+import type { Plugin } from 'esbuild';
+
+/**
+ * Import the core from the package's main entry instead of bundling a copy.
+ * Each entry is built on its own, so without this the adapters and test kit would
+ * carry their own Player, cdnManager, metadataCache and qualityPreference — a
+ * `/react` player and an index PlayerPool would no longer share CDN health or the
+ * metadata cache, and `resetPlayerSingletons()` would reset the wrong instances.
+ * Everything the adapters import from `core/` must be exported from src/index.ts.
+ */
+const coreFromIndex: Plugin = {
+  name: 'core-from-index',
+  setup(build) {
+    build.onResolve({ filter: /^\.\.?\/core\// }, () => ({
+      path: '@mantequilla-soft/3speak-player',
+      external: true,
+    }));
+  },
+};
 
 export default defineConfig([
   // Core (framework-agnostic)
@@ -21,5 +40,60 @@ export default defineConfig([
     external: ['react', 'hls.js'],
     treeshake: true,
     minify: false,
+    esbuildPlugins: [coreFromIndex],
+  },
+  // Vue adapter (optional)
+  {
+    entry: { vue: 'src/vue.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    sourcemap: true,
+    external: ['vue', 'hls.js'],
+    treeshake: true,
+    minify: false,
+    esbuildPlugins: [coreFromIndex],
+  },
+  // Svelte stores (optional, no Svelte runtime dependency)
+  {
+    entry: { svelte: 'src/svelte.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    sourcemap: true,
+    external: ['hls.js'],
+    treeshake: true,
+    minify: false,
+    esbuildPlugins: [coreFromIndex],
+  },
+  // <threespeak-player> custom element
+  {
+    entry: { element: 'src/element.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    sourcemap: true,
+    external: ['hls.js'],
+    treeshake: true,
+    minify: false,
+    esbuildPlugins: [coreFromIndex],
+  },
+  // <threespeak-player> for plain <script> tags (hls.js bundled in)
+  {
+    entry: { element: 'src/element.ts' },
+    format: ['iife'],
+    globalName: 'ThreeSpeakPlayer',
+    noExternal: ['hls.js'],
+    sourcemap: true,
+    treeshake: true,
+    minify: true,
+  },
+  // Test kit (optional)
+  {
+    entry: { testing: 'src/testing/index.ts' },
+    format: ['esm', 'cjs'],
+    dts: true,
+    sourcemap: true,
+    external: ['react', 'hls.js'],
+    treeshake: true,
+    minify: false,
+    esbuildPlugins: [coreFromIndex],
   },
 ]);